@@ -0,0 +1,84 @@
+// scripts/check-canonical-vectors.ts
+// Runs supabase/functions/_shared/canonical-vectors.json against the Node
+// canonicalizer (src/canonical.ts). The Deno copy runs the same file via
+// scripts/check-canonical-vectors.deno.ts; both must pass byte for byte.
+//
+// Exit code 0 = all vectors pass, 1 = at least one mismatch.
+//
+// Usage:
+// node --loader ts-node/esm scripts/check-canonical-vectors.ts
+
+import fs from "fs";
+import { canonicalize, sha256Hex } from "../src/canonical.js";
+import { CanonicalizationError } from "../src/errors.js";
+
+type Vector = { name: string; json?: string; build?: string; canonical?: string; sha256?: string; error?: string };
+
+// Values JSON cannot express; keep in sync with the Deno script
+function build(name: string): unknown {
+  const cyclic: Record<string, unknown> = { a: 1 };
+  cyclic.self = cyclic;
+  const shared = { x: 1 };
+  const bare = Object.create(null);
+  bare.a = 1;
+
+  const builders: Record<string, () => unknown> = {
+    undefined_property: () => ({ a: 1, b: undefined, c: [] }),
+    null_prototype: () => bare,
+    shared_reference: () => ({ a: shared, b: shared }),
+    nan: () => ({ n: NaN }),
+    infinity: () => ({ n: Infinity }),
+    negative_infinity: () => [-Infinity],
+    bigint: () => ({ n: BigInt(1) }),
+    function: () => ({ f: () => 1 }),
+    symbol: () => ({ s: Symbol("s") }),
+    top_level_undefined: () => undefined,
+    undefined_in_array: () => [1, undefined],
+    date: () => ({ at: new Date(0) }),
+    map: () => ({ m: new Map([["a", 1]]) }),
+    class_instance: () => ({ c: new (class Point { x = 1 })() }),
+    cycle: () => cyclic,
+    lone_high_surrogate: () => "a\uD800b",
+    lone_low_surrogate: () => ["\uDC00"],
+    lone_surrogate_key: () => ({ "\uDBFF": 1 }),
+  };
+
+  if (!builders[name]) throw new Error(`unknown_builder:${name}`);
+  return builders[name]();
+}
+
+function main() {
+  const file = new URL("../supabase/functions/_shared/canonical-vectors.json", import.meta.url);
+  const { cases } = JSON.parse(fs.readFileSync(file, "utf8")) as { cases: Vector[] };
+
+  const failures: string[] = [];
+  for (const c of cases) {
+    const input = c.json !== undefined ? JSON.parse(c.json) : build(c.build!);
+
+    let out: string | undefined;
+    let error: string | undefined;
+    try {
+      out = canonicalize(input);
+    } catch (e) {
+      if (!(e instanceof CanonicalizationError)) throw e;
+      error = e.reason;
+    }
+
+    if (c.error !== undefined) {
+      if (error !== c.error) failures.push(`${c.name}: expected error ${c.error}, got ${error ?? JSON.stringify(out)}`);
+    } else if (out !== c.canonical) {
+      failures.push(`${c.name}: expected ${c.canonical}, got ${error ?? out}`);
+    } else if (sha256Hex(out!) !== c.sha256) {
+      failures.push(`${c.name}: sha256 mismatch`);
+    }
+  }
+
+  if (failures.length) {
+    console.error(`FAIL ${failures.length}/${cases.length}`);
+    for (const f of failures) console.error(`  ${f}`);
+    process.exit(1);
+  }
+  console.log(`PASS ${cases.length} canonicalization vectors (node)`);
+}
+
+main();
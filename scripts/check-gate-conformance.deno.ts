@@ -0,0 +1,37 @@
+// scripts/check-gate-conformance.deno.ts
+// Deno counterpart of scripts/check-gate-conformance.ts: the same
+// scenarios against the Supabase adapter (loadGateConfig + gateAndForward
+// in supabase/functions/_shared).
+//
+// Exit code 0 = all scenarios pass, 1 = at least one mismatch.
+//
+// Usage:
+// deno run --allow-read scripts/check-gate-conformance.deno.ts
+
+import { computeExecuteHash, computeIntentHash } from "../supabase/functions/_shared/canonical.ts";
+import { loadGateConfig } from "../supabase/functions/_shared/config.ts";
+import { coreDecisionSigningMaterial } from "../supabase/functions/_shared/coreSignature.ts";
+import { verifyExecutorRequest } from "../supabase/functions/_shared/executorVerifier.ts";
+import { gateAndForward } from "../supabase/functions/_shared/gate.ts";
+import { decodeReceiptHeader } from "../supabase/functions/_shared/receipt.ts";
+import { type GateImplementation, runGateConformance } from "./gate-conformance-harness.ts";
+
+const deno: GateImplementation = {
+  runtime: "deno",
+  gate: (env, envelope, opts) => gateAndForward(loadGateConfig((name) => env[name]), envelope as any, opts),
+  computeExecuteHash,
+  computeIntentHash,
+  coreDecisionSigningMaterial: (d) => coreDecisionSigningMaterial(d as any),
+  decodeReceiptHeader: (value) => decodeReceiptHeader(value) as any,
+  verifyExecutorRequest: (params) => verifyExecutorRequest(params),
+};
+
+const file = new URL("../supabase/functions/_shared/gate-conformance.json", import.meta.url);
+const { failures, count } = await runGateConformance(deno, JSON.parse(await Deno.readTextFile(file)));
+
+if (failures.length) {
+  console.error(`FAIL ${failures.length}/${count}`);
+  for (const f of failures) console.error(`  ${f}`);
+  Deno.exit(1);
+}
+console.log(`PASS ${count} gate conformance scenarios (deno)`);
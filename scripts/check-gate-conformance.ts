@@ -0,0 +1,57 @@
+// scripts/check-gate-conformance.ts
+// Runs the shared gate scenarios (supabase/functions/_shared/gate-conformance.json)
+// against the Node gateway: loadAdapterConfigFromEnv + gateAndForward.
+// scripts/check-gate-conformance.deno.ts runs the same file against the
+// Supabase adapter; both must pass for the runtimes to be on par.
+//
+// Exit code 0 = all scenarios pass, 1 = at least one mismatch.
+//
+// Usage:
+// node --loader ts-node/esm scripts/check-gate-conformance.ts
+
+import fs from "fs";
+import { computeExecuteHash, computeIntentHash } from "../src/canonical.js";
+import { loadAdapterConfigFromEnv } from "../src/config.js";
+import { coreDecisionSigningMaterial } from "../src/coreSignature.js";
+import { decodeReceiptHeaderDetailed, verifyExecutorRequest } from "../src/executorVerifier.js";
+import { gateAndForward } from "../src/gate.js";
+import { runGateConformance, type GateImplementation } from "./gate-conformance-harness.js";
+
+const node: GateImplementation = {
+  runtime: "node",
+  async gate(env, envelope, opts) {
+    const saved = { ...process.env };
+    Object.assign(process.env, env);
+    try {
+      return (await gateAndForward(loadAdapterConfigFromEnv(), envelope as any, {
+        requestId: opts.requestId,
+        organizationId: opts.organizationId ?? undefined,
+      })) as Record<string, any>;
+    } finally {
+      for (const k of Object.keys(env)) delete process.env[k];
+      Object.assign(process.env, saved);
+    }
+  },
+  computeExecuteHash,
+  computeIntentHash,
+  coreDecisionSigningMaterial: (d) => coreDecisionSigningMaterial(d as any),
+  decodeReceiptHeader: (value) => decodeReceiptHeaderDetailed(value) as any,
+  verifyExecutorRequest: (params) => verifyExecutorRequest(params),
+};
+
+async function main() {
+  const file = new URL("../supabase/functions/_shared/gate-conformance.json", import.meta.url);
+  const { failures, count } = await runGateConformance(node, JSON.parse(fs.readFileSync(file, "utf8")));
+
+  if (failures.length) {
+    console.error(`FAIL ${failures.length}/${count}`);
+    for (const f of failures) console.error(`  ${f}`);
+    process.exit(1);
+  }
+  console.log(`PASS ${count} gate conformance scenarios (node)`);
+}
+
+main().catch((e) => {
+  console.error("Fatal:", e);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+// scripts/dead-letters.ts
+// Dead-letter tooling for failed forwards (file-backed store)
+// - list    [status]        list entries (open | redriving | redriven | resolved | abandoned)
+// - show    <id>            print one entry
+// - redrive <id> [--acceptance <file.json>] [--by <name>]
+//                           fresh Core decision + fresh receipt, then forward
+//
+// Requires the adapter environment (same as the gateway) and
+// SOLACE_ADAPTER_DATA_DIR pointing at the adapter's data directory.
+// Safe while the gateway runs: the file store re-reads appends from
+// other processes, and status changes are locked compare-and-set claims.
+//
+// Usage:
+// node --loader ts-node/esm scripts/dead-letters.ts list open
+
+import fs from "fs";
+import { loadAdapterConfigFromEnv } from "../src/config.js";
+import { openRecordStore } from "../src/stores.js";
+import { openDecisionLog } from "../src/decisionLog.js";
+import {
+  getDeadLetter,
+  listDeadLetters,
+  redriveDeadLetter,
+} from "../src/deadLetters.js";
+import type {
+  Acceptance,
+  DeadLetterEntry,
+  DeadLetterStatus,
+  ForwardRecord,
+  ReceiptRecord,
+} from "../src/types.js";
+
+function parseArgs(argv: string[]) {
+  const out: { cmd?: string; arg?: string; acceptance?: string; by?: string } = {};
+  const positional: string[] = [];
+  for (let i = 2; i < argv.length; i++) {
+    if (argv[i] === "--acceptance") out.acceptance = argv[++i];
+    else if (argv[i] === "--by") out.by = argv[++i];
+    else positional.push(argv[i]);
+  }
+  out.cmd = positional[0];
+  out.arg = positional[1];
+  return out;
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+
+  const cfg = loadAdapterConfigFromEnv();
+  if (!cfg.dataDir) throw new Error("missing_env_SOLACE_ADAPTER_DATA_DIR");
+
+  const deadLetters = openRecordStore<DeadLetterEntry>(cfg, "dead-letters");
+  const forwards = openRecordStore<ForwardRecord>(cfg, "forwards");
+
+  if (args.cmd === "list") {
+    const entries = await listDeadLetters(deadLetters, {
+      status: args.arg as DeadLetterStatus | undefined,
+    });
+    for (const e of entries) {
+      console.log(
+        [e.id, e.status, e.createdAt, `${e.service}:${e.operation}`, e.error, e.receiptId].join("\t")
+      );
+    }
+    return;
+  }
+
+  if (args.cmd === "show") {
+    if (!args.arg) throw new Error("show requires <id>");
+    const entry = await getDeadLetter(deadLetters, args.arg);
+    if (!entry) throw new Error("dead_letter_not_found");
+    console.log(JSON.stringify(entry, null, 2));
+    return;
+  }
+
+  if (args.cmd === "redrive") {
+    if (!args.arg) throw new Error("redrive requires <id>");
+
+    const acceptance = args.acceptance
+      ? (JSON.parse(fs.readFileSync(args.acceptance, "utf8")) as Acceptance)
+      : undefined;
+
+    const out = await redriveDeadLetter(cfg, deadLetters, {
+      id: args.arg,
+      by: args.by || "cli",
+      acceptance,
+      forwards,
+      decisionLog: openDecisionLog(cfg),
+      receipts: openRecordStore<ReceiptRecord>(cfg, "receipts"),
+    });
+
+    console.log(JSON.stringify(out, null, 2));
+    if (!out.ok) process.exit(2);
+    return;
+  }
+
+  throw new Error("usage: dead-letters.ts list [status] | show <id> | redrive <id> [--acceptance file] [--by name]");
+}
+
+main().catch((e) => {
+  console.error("Fatal:", e);
+  process.exit(1);
+});
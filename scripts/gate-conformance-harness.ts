@@ -0,0 +1,286 @@
+// scripts/gate-conformance-harness.ts
+// Runtime-neutral gate conformance harness (no imports: loaded by both
+// scripts/check-gate-conformance.ts (Node) and
+// scripts/check-gate-conformance.deno.ts (Deno)).
+//
+// Every scenario in supabase/functions/_shared/gate-conformance.json runs
+// through the runtime's own config loader and gate with fetch replaced
+// by an in-process Core + executor. The observed wire output (decision,
+// forward request, receipt fields) must equal the scenario's "expect"
+// exactly, so both runtimes produce identical output.
+//
+// Placeholders:
+//   input:  $executor (executor base URL), $executeHash / $intentHash (computed),
+//           $future / $past (acceptance expiry)
+//   output: $executor, $receiptId, $receipt (x-solace-receipt value), $kid
+
+export interface GateImplementation {
+  runtime: string;
+  gate(
+    env: Record<string, string>,
+    envelope: unknown,
+    opts: { requestId: string; organizationId: string | null }
+  ): Promise<Record<string, any>>;
+  computeExecuteHash(execute: unknown): string | Promise<string>;
+  computeIntentHash(intent: unknown): string | Promise<string>;
+  coreDecisionSigningMaterial(decision: Record<string, unknown>): string;
+  decodeReceiptHeader(value: string): { ok: boolean; reason?: string; format?: string; receipt?: Record<string, any> };
+  verifyExecutorRequest(params: {
+    receiptHeader: string;
+    receiptPublicKeyPem: string;
+    expectedService: string;
+    expectedAudience?: string;
+    execute: unknown;
+    intent: unknown;
+    requireIntent: boolean;
+  }): { ok: boolean; reason?: string } | Promise<{ ok: boolean; reason?: string }>;
+}
+
+export interface GateScenario {
+  name: string;
+  env?: Record<string, string>;
+  organizationId?: string | null;
+  targets: Record<string, unknown>;
+  envelope: Record<string, any>;
+  core?: {
+    decision: string;
+    reason?: string;
+    executeHash?: string;
+    intentHash?: string;
+    authorityKeyId?: string | null;
+    signature?: "valid" | "invalid" | "missing";
+  };
+  executor?: { status?: number; body?: unknown; unreachable?: boolean };
+  expect: Record<string, unknown>;
+}
+
+const CORE = "https://core.conformance.test";
+const EXECUTOR = "https://executor.conformance.test";
+const RECEIPT_KEYS = ["v", "signatureFormat", "adapterId", "service", "operation", "organizationId", "audience",
+  "requestId", "actorId", "intent", "executeHash", "intentHash", "coreDecision", "coreKeyId", "authorityKeyId"];
+
+function toPem(der: ArrayBuffer, label: string): string {
+  const bytes = new Uint8Array(der);
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  const lines = btoa(bin).match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join("\n")}\n-----END ${label}-----\n`;
+}
+
+async function generatePemPair() {
+  const pair = (await crypto.subtle.generateKey({ name: "Ed25519" } as any, true, ["sign", "verify"])) as any;
+  return {
+    key: pair.privateKey,
+    privateKeyPem: toPem(await crypto.subtle.exportKey("pkcs8", pair.privateKey), "PRIVATE KEY"),
+    publicKeyPem: toPem(await crypto.subtle.exportKey("spki", pair.publicKey), "PUBLIC KEY"),
+  };
+}
+
+function fill(value: unknown, vars: Record<string, string>): any {
+  if (typeof value === "string") {
+    if (value in vars) return vars[value];
+    return value.replace(/\$executor/g, EXECUTOR);
+  }
+  if (Array.isArray(value)) return value.map((v) => fill(v, vars));
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const k of Object.keys(value)) out[k] = fill((value as any)[k], vars);
+    return out;
+  }
+  return value;
+}
+
+function unfill(value: unknown, vars: Record<string, string>): any {
+  if (typeof value === "string") {
+    for (const [k, v] of Object.entries(vars)) if (value === v) return k;
+    return value.split(EXECUTOR).join("$executor");
+  }
+  if (Array.isArray(value)) return value.map((v) => unfill(v, vars));
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const k of Object.keys(value)) out[k] = unfill((value as any)[k], vars);
+    return out;
+  }
+  return value;
+}
+
+function stable(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stable).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((k) => (value as any)[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stable((value as any)[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function headersToObject(headers: unknown): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (headers instanceof Headers) {
+    headers.forEach((v, k) => (out[k.toLowerCase()] = v));
+    return out;
+  }
+  const entries = Array.isArray(headers) ? headers : Object.entries((headers ?? {}) as Record<string, string>);
+  for (const [k, v] of entries) out[String(k).toLowerCase()] = String(v);
+  return out;
+}
+
+async function runScenario(impl: GateImplementation, s: GateScenario, keys: any): Promise<unknown> {
+  const future = new Date(Date.now() + 5 * 60 * 1000).toISOString();
+  const past = new Date(Date.now() - 5 * 60 * 1000).toISOString();
+
+  // Scenarios with non-canonicalizable payloads never reach a hash placeholder
+  const executeHash = await Promise.resolve()
+    .then(() => impl.computeExecuteHash(s.envelope.execute))
+    .catch(() => "");
+  const intentHash = await Promise.resolve()
+    .then(() => impl.computeIntentHash(s.envelope.intent))
+    .catch(() => "");
+  const envelope = fill(s.envelope, { $future: future, $past: past, $executeHash: executeHash });
+
+  const forwards: { method: string; url: string; headers: Record<string, string>; body: string }[] = [];
+  let coreCalls = 0;
+
+  const fakeFetch = async (input: unknown, init: Record<string, any> = {}) => {
+    const url = String((input as any)?.url ?? input);
+
+    if (url.startsWith(CORE)) {
+      coreCalls++;
+      const c = s.core!;
+      const decision: Record<string, unknown> = {
+        decision: c.decision,
+        executeHash: fill(c.executeHash, { $executeHash: executeHash }),
+        intentHash: fill(c.intentHash, { $intentHash: intentHash }),
+        authorityKeyId: c.authorityKeyId ?? null,
+        issuedAt: "2026-01-01T00:00:00.000Z",
+        expiresAt: "2099-01-01T00:00:00.000Z",
+        time: "2026-01-01T00:00:00.000Z",
+        keyId: "core-1",
+      };
+      let signature: string | undefined;
+      if ((c.signature ?? "valid") !== "missing") {
+        const material = impl.coreDecisionSigningMaterial(
+          c.signature === "invalid" ? { ...decision, decision: "TAMPERED" } : decision
+        );
+        const sig = new Uint8Array(
+          await crypto.subtle.sign({ name: "Ed25519" } as any, keys.core.key, new TextEncoder().encode(material))
+        );
+        let bin = "";
+        for (let i = 0; i < sig.length; i++) bin += String.fromCharCode(sig[i]);
+        signature = btoa(bin);
+      }
+      return new Response(JSON.stringify({ ...decision, reason: c.reason, signature }), {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    if (url.startsWith(EXECUTOR)) {
+      forwards.push({
+        method: String(init.method || "GET"),
+        url,
+        headers: headersToObject(init.headers),
+        body: String(init.body ?? ""),
+      });
+      const e = s.executor ?? {};
+      if (e.unreachable) throw new TypeError("fetch failed");
+      return new Response(e.body === undefined ? "" : JSON.stringify(e.body), {
+        status: e.status ?? 200,
+        headers: { "content-type": "application/json" },
+      });
+    }
+
+    throw new TypeError(`conformance_unexpected_fetch:${url}`);
+  };
+
+  const env: Record<string, string> = {
+    SOLACE_ADAPTER_ID: "conformance-adapter",
+    SOLACE_CORE_BASE_URL: CORE,
+    SOLACE_CORE_PUBLIC_KEY_PEM: keys.core.publicKeyPem,
+    SOLACE_ADAPTER_RECEIPT_PRIVATE_KEY_PEM: keys.receipt.privateKeyPem,
+    SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PEM: keys.receipt.publicKeyPem,
+    SOLACE_ADAPTER_TARGETS_JSON: JSON.stringify(fill(s.targets, {})),
+    ...(s.env ?? {}),
+  };
+
+  const realFetch = globalThis.fetch;
+  (globalThis as any).fetch = fakeFetch;
+  let result: Record<string, any>;
+  try {
+    result = await impl.gate(env, envelope, { requestId: "req-1", organizationId: s.organizationId ?? null });
+  } finally {
+    (globalThis as any).fetch = realFetch;
+  }
+
+  const observed: Record<string, unknown> = {
+    decision: result.decision,
+    reason: result.reason,
+    coreCalled: coreCalls > 0,
+    forwardStatus: result.forwardStatus,
+    forwardOutcome: result.forwardOutcome,
+    forwardError: result.forwardError,
+    forwardBody: result.forwardBody ?? undefined,
+    forward: null,
+    receipt: null,
+  };
+
+  if (forwards.length) {
+    const f = forwards[0];
+    const header = f.headers["x-solace-receipt"];
+    const decoded = impl.decodeReceiptHeader(header);
+    const receipt = decoded.receipt ?? {};
+
+    const verified = await impl.verifyExecutorRequest({
+      receiptHeader: header,
+      receiptPublicKeyPem: keys.receipt.publicKeyPem,
+      expectedService: String(receipt.service),
+      expectedAudience: receipt.audience,
+      execute: envelope.execute,
+      intent: envelope.intent,
+      requireIntent: true,
+    });
+
+    const vars = { $receiptId: String(receipt.receiptId), $receipt: header, $kid: String(receipt.kid) };
+    const values: Record<string, unknown> = {};
+    for (const k of RECEIPT_KEYS) values[k] = receipt[k];
+
+    observed.forwardCount = forwards.length;
+    observed.forward = unfill({ method: f.method, url: f.url, headers: f.headers, body: JSON.parse(f.body) }, vars);
+    observed.receipt = {
+      format: decoded.format,
+      fields: Object.keys(receipt),
+      values: unfill(values, vars),
+      kidPresent: typeof receipt.kid === "string" && receipt.kid.length > 0,
+      nonceLength: typeof receipt.nonce === "string" ? receipt.nonce.length : null,
+      executorVerification: verified.ok ? "ok" : verified.reason,
+      resultReceiptMatches: result.receipt?.receiptId === receipt.receiptId,
+    };
+  }
+
+  return observed;
+}
+
+export async function runGateConformance(
+  impl: GateImplementation,
+  doc: { scenarios: GateScenario[] }
+): Promise<{ failures: string[]; count: number }> {
+  const keys = { core: await generatePemPair(), receipt: await generatePemPair() };
+  const failures: string[] = [];
+
+  for (const s of doc.scenarios) {
+    let observed: unknown;
+    try {
+      observed = await runScenario(impl, s, keys);
+    } catch (e) {
+      failures.push(`${s.name}: threw ${(e as Error)?.message ?? e}`);
+      continue;
+    }
+    if (stable(observed) !== stable(s.expect)) {
+      failures.push(`${s.name}:\n    expected ${stable(s.expect)}\n    observed ${stable(observed)}`);
+    }
+  }
+
+  return { failures, count: doc.scenarios.length };
+}
@@ -0,0 +1,52 @@
+// scripts/sign-trust-bundle.ts
+// Signs an executor trust registry for distribution by URL.
+// - reads a registry document { issuedAt?, adapters: [...] }
+// - validates it (same rules as the executor's loader)
+// - stamps issuedAt (now) unless --keep-issued-at
+// - prints { bundle, signature, kid? } to publish at EXECUTOR_TRUST_REGISTRY_URL
+//
+// Executors pin the matching public key (EXECUTOR_TRUST_BUNDLE_PUBLIC_KEY_PEM),
+// only accept bundles newer than the one they hold, and stop trusting a
+// bundle maxStalenessMs (default 24 hours) after its issuedAt: re-sign
+// and publish on a schedule shorter than that, even without changes.
+//
+// Usage:
+// node --loader ts-node/esm scripts/sign-trust-bundle.ts registry.json --key ./registry.key [--kid id] > bundle.json
+
+import fs from "fs";
+import { parseTrustBundle, signTrustBundle } from "../src/trustRegistry.js";
+
+function parseArgs(argv: string[]) {
+  const out: { file?: string; key?: string; kid?: string; keepIssuedAt?: boolean } = {};
+  for (let i = 2; i < argv.length; i++) {
+    if (argv[i] === "--key") out.key = argv[++i];
+    else if (argv[i] === "--kid") out.kid = argv[++i];
+    else if (argv[i] === "--keep-issued-at") out.keepIssuedAt = true;
+    else out.file = argv[i];
+  }
+  return out;
+}
+
+function main() {
+  const args = parseArgs(process.argv);
+  if (!args.file || !args.key) {
+    console.error("Usage: sign-trust-bundle.ts <registry.json> --key <private.pem> [--kid id] [--keep-issued-at]");
+    process.exit(2);
+  }
+
+  const bundle = parseTrustBundle(JSON.parse(fs.readFileSync(args.file, "utf8")));
+  if (!args.keepIssuedAt || !bundle.issuedAt) bundle.issuedAt = new Date().toISOString();
+
+  const signed = signTrustBundle(bundle, {
+    privateKeyPem: fs.readFileSync(args.key, "utf8"),
+    kid: args.kid,
+  });
+  console.log(JSON.stringify(signed, null, 2));
+}
+
+try {
+  main();
+} catch (e) {
+  console.error("Fatal:", e);
+  process.exit(1);
+}
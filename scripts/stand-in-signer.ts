@@ -0,0 +1,113 @@
+// scripts/stand-in-signer.ts
+// Stand-in receipt signing daemon (local development / verification).
+// Speaks the RemoteReceiptSigner protocol:
+//   GET  /v1/key   → { kid }
+//   POST /v1/sign  { kid, alg: "EdDSA", payload: base64 } → { kid, signature }
+//
+// NOT a production signer: the key is a plain PEM file read into memory.
+// Production deployments put a KMS / HSM behind the same protocol or
+// implement ReceiptSigner directly.
+//
+// serve --key <private.pem> [--kid id] [--socket path | --port n] [--token t]
+// (test/receiptSigner.test.ts runs RemoteReceiptSigner against createSignerServer)
+//
+// Usage:
+// node --loader ts-node/esm scripts/stand-in-signer.ts serve --key ./receipt.key --socket /tmp/solace-signer.sock
+// SOLACE_ADAPTER_RECEIPT_SIGNER_SOCKET=/tmp/solace-signer.sock (adapter side)
+
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import { pathToFileURL } from "url";
+import { receiptKeyThumbprint } from "../src/receiptKeys.js";
+
+function parseArgs(argv: string[]) {
+  const out: { cmd?: string; key?: string; kid?: string; socket?: string; port?: number; token?: string } = {};
+  for (let i = 2; i < argv.length; i++) {
+    if (argv[i] === "--key") out.key = argv[++i];
+    else if (argv[i] === "--kid") out.kid = argv[++i];
+    else if (argv[i] === "--socket") out.socket = argv[++i];
+    else if (argv[i] === "--port") out.port = Number(argv[++i]);
+    else if (argv[i] === "--token") out.token = argv[++i];
+    else out.cmd = argv[i];
+  }
+  return out;
+}
+
+export function createSignerServer(params: { privateKeyPem: string; kid: string; token?: string }) {
+  return http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.statusCode = status;
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(body));
+    };
+
+    if (params.token && req.headers.authorization !== `Bearer ${params.token}`) {
+      return send(401, { error: "unauthorized" });
+    }
+
+    if (req.method === "GET" && req.url === "/v1/key") return send(200, { kid: params.kid });
+
+    if (req.method !== "POST" || req.url !== "/v1/sign") return send(404, { error: "not_found" });
+
+    let raw = "";
+    req.on("data", (c) => (raw += c));
+    req.on("end", () => {
+      let body: { kid?: string; alg?: string; payload?: string };
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        return send(400, { error: "invalid_json" });
+      }
+
+      if (body.kid !== params.kid) return send(409, { error: "unknown_kid" });
+      if (body.alg !== "EdDSA" || typeof body.payload !== "string") {
+        return send(400, { error: "invalid_sign_request" });
+      }
+
+      const signature = crypto
+        .sign(null, Buffer.from(body.payload, "base64"), params.privateKeyPem)
+        .toString("base64");
+      return send(200, { kid: params.kid, signature });
+    });
+  });
+}
+
+export function listen(server: http.Server, target: { socket?: string; port?: number }): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    if (target.socket) {
+      fs.rmSync(target.socket, { force: true });
+      server.listen(target.socket, () => resolve());
+    } else {
+      server.listen(target.port ?? 8787, "127.0.0.1", () => resolve());
+    }
+  });
+}
+
+async function serve(args: ReturnType<typeof parseArgs>) {
+  if (!args.key) throw new Error("serve requires --key <private.pem>");
+
+  const privateKeyPem = fs.readFileSync(args.key, "utf8");
+  const publicKeyPem = crypto.createPublicKey(privateKeyPem).export({ type: "spki", format: "pem" }).toString();
+  const kid = args.kid || receiptKeyThumbprint(publicKeyPem);
+
+  const server = createSignerServer({ privateKeyPem, kid, token: args.token });
+  await listen(server, args);
+
+  console.log(`stand-in signer kid=${kid} on ${args.socket || `127.0.0.1:${args.port ?? 8787}`}`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+  if (args.cmd === "serve") return serve(args);
+  throw new Error("usage: stand-in-signer.ts serve --key <pem> [--kid id] [--socket path | --port n] [--token t]");
+}
+
+// Imported by the tests: only serve when run directly
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((e) => {
+    console.error("Fatal:", e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,58 @@
+// scripts/verify-decision-log.ts
+// Verifies the adapter's hash-chained decision log.
+// - every entry's hash matches its content
+// - seq is contiguous and prevHash links to the previous entry
+// - optional anchors detect a truncated tail:
+//     --head <hash>     a previously exported head must still be present
+//     --min <count>     at least this many entries must remain
+//
+// Prints the current head hash on success (export it as the next anchor).
+// Exit code 0 = intact, 2 = tampered / truncated, 1 = error.
+//
+// Usage:
+// node --loader ts-node/esm scripts/verify-decision-log.ts ./data/decision-log.jsonl --head <hash>
+
+import { readDecisionLogFile, verifyDecisionLog } from "../src/decisionLog.js";
+
+function parseArgs(argv: string[]) {
+  const out: { file?: string; head?: string; min?: number } = {};
+  for (let i = 2; i < argv.length; i++) {
+    if (argv[i] === "--head") out.head = argv[++i];
+    else if (argv[i] === "--min") out.min = Number(argv[++i]);
+    else out.file = argv[i];
+  }
+  return out;
+}
+
+function main() {
+  const args = parseArgs(process.argv);
+  if (!args.file) {
+    throw new Error("usage: verify-decision-log.ts <decision-log.jsonl> [--head hash] [--min count]");
+  }
+  if (args.min !== undefined && !Number.isInteger(args.min)) {
+    throw new Error("--min must be an integer");
+  }
+
+  let entries;
+  try {
+    entries = readDecisionLogFile(args.file);
+  } catch (e) {
+    console.log(JSON.stringify({ ok: false, reason: (e as Error).message }, null, 2));
+    process.exit(2);
+  }
+
+  const out = verifyDecisionLog(entries, {
+    expectedHead: args.head,
+    minEntries: args.min,
+  });
+
+  console.log(JSON.stringify(out, null, 2));
+  if (!out.ok) process.exit(2);
+}
+
+try {
+  main();
+} catch (e) {
+  console.error("Fatal:", e);
+  process.exit(1);
+}
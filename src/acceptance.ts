@@ -0,0 +1,41 @@
+// src/acceptance.ts
+// Adapter-side acceptance pre-checks.
+//
+// These run BEFORE the Core round trip and only reject envelopes that
+// Core would reject anyway. They never permit anything: signature and
+// authority validation remain Core's job.
+
+import { computeExecuteHash } from "./canonical.js";
+import type { GateRequestEnvelope } from "./types.js";
+
+export function precheckAcceptance(
+  envelope: GateRequestEnvelope,
+  params: { now?: Date; clockSkewSeconds?: number; executeHash?: string } = {}
+): { ok: boolean; reason?: string } {
+  const now = params.now ?? new Date();
+  const skew = params.clockSkewSeconds ?? 10;
+  const acceptance = envelope.acceptance;
+
+  const expiresAt = new Date(acceptance.expiresAt);
+  if (!acceptance.expiresAt || Number.isNaN(expiresAt.getTime())) {
+    return { ok: false, reason: "acceptance_invalid_expires_at" };
+  }
+  if (now.getTime() - skew * 1000 > expiresAt.getTime()) {
+    return { ok: false, reason: "acceptance_expired" };
+  }
+
+  if (String(acceptance.actorId ?? "") !== String(envelope.intent.actor.id)) {
+    return { ok: false, reason: "acceptance_actor_mismatch" };
+  }
+
+  if (String(acceptance.intent ?? "") !== String(envelope.intent.intent)) {
+    return { ok: false, reason: "acceptance_intent_mismatch" };
+  }
+
+  const executeHash = params.executeHash ?? computeExecuteHash(envelope.execute);
+  if (acceptance.executeHash !== executeHash) {
+    return { ok: false, reason: "acceptance_execute_hash_mismatch" };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,185 @@
+// src/approvals.ts
+// Pending-approval workflow for Core ESCALATE decisions.
+//
+// Flow:
+//   gateAndForward → Core ESCALATE → pending approval (no forwarding)
+//   approver → approve (fresh signed acceptance) → full gate re-run
+//   approver → reject → terminal, nothing forwarded
+//
+// Approvals fail closed: an expired approval can never be approved,
+// and approval only replaces the acceptance; Core decides again.
+// Every status change is a store.update() compare-and-set on "pending",
+// so concurrent approvers (or replicas sharing the store) cannot both
+// re-run the gate.
+
+import type {
+  Acceptance,
+  AdapterForwardingConfig,
+  DecisionLog,
+  ApprovalStatus,
+  ForwardRecord,
+  PendingApproval,
+  ReceiptStore,
+  RecordStore,
+} from "./types.js";
+import { gateAndForward } from "./gate.js";
+import { asMessage } from "./errors.js";
+
+function isExpired(approval: PendingApproval, now: Date): boolean {
+  const exp = new Date(approval.expiresAt).getTime();
+  return Number.isNaN(exp) || now.getTime() > exp;
+}
+
+/**
+ * Marks a pending approval expired once its window has passed.
+ * Terminal states are returned unchanged.
+ */
+async function refreshStatus(
+  store: RecordStore<PendingApproval>,
+  approval: PendingApproval,
+  now: Date
+): Promise<PendingApproval> {
+  if (approval.status !== "pending" || !isExpired(approval, now)) return approval;
+
+  const expired = await store.update(approval.approvalId, (current) =>
+    current?.status === "pending" && isExpired(current, now)
+      ? { ...current, status: "expired", decidedAt: now.toISOString() }
+      : null
+  );
+  // Decided concurrently: report what won
+  return expired ?? (await store.get(approval.approvalId)) ?? approval;
+}
+
+/**
+ * Moves a still-pending, unexpired approval to a decided status.
+ * null when another decision (or expiry) got there first.
+ */
+function claimPending(
+  store: RecordStore<PendingApproval>,
+  approvalId: string,
+  now: Date,
+  decision: Partial<PendingApproval>
+): Promise<PendingApproval | null> {
+  return store.update(approvalId, (current) =>
+    current?.status === "pending" && !isExpired(current, now) ? { ...current, ...decision } : null
+  );
+}
+
+export async function getApproval(
+  store: RecordStore<PendingApproval>,
+  approvalId: string,
+  now: Date = new Date()
+): Promise<PendingApproval | null> {
+  const approval = await store.get(approvalId);
+  if (!approval) return null;
+  return refreshStatus(store, approval, now);
+}
+
+export async function listApprovals(
+  store: RecordStore<PendingApproval>,
+  params: { status?: ApprovalStatus; organizationId?: string; now?: Date } = {}
+): Promise<PendingApproval[]> {
+  const now = params.now ?? new Date();
+
+  const all = await store.list(
+    (a) => !params.organizationId || a.organizationId === params.organizationId
+  );
+
+  const out: PendingApproval[] = [];
+  for (const a of all) {
+    const current = await refreshStatus(store, a, now);
+    if (!params.status || current.status === params.status) out.push(current);
+  }
+
+  return out.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function approvePendingApproval(
+  cfg: AdapterForwardingConfig,
+  store: RecordStore<PendingApproval>,
+  params: {
+    approvalId: string;
+    acceptance: Acceptance;
+    decidedBy: string;
+    forwards?: RecordStore<ForwardRecord>;
+    decisionLog?: DecisionLog;
+    receipts?: ReceiptStore;
+    now?: Date;
+  }
+): Promise<{ ok: boolean; reason?: string; approval?: PendingApproval }> {
+  const now = params.now ?? new Date();
+
+  if (!params.acceptance) return { ok: false, reason: "missing_acceptance" };
+
+  const existing = await getApproval(store, params.approvalId, now);
+  if (!existing) return { ok: false, reason: "approval_not_found" };
+  if (existing.status === "expired") {
+    return { ok: false, reason: "approval_expired", approval: existing };
+  }
+  if (existing.status !== "pending") {
+    return { ok: false, reason: "approval_not_pending", approval: existing };
+  }
+
+  // Claim (compare-and-set) before the Core round trip so a second approver cannot re-run it
+  const claimed = await claimPending(store, existing.approvalId, now, {
+    status: "approved",
+    decidedAt: now.toISOString(),
+    decidedBy: params.decidedBy,
+  });
+  if (!claimed) {
+    return { ok: false, reason: "approval_not_pending", approval: (await store.get(existing.approvalId)) ?? existing };
+  }
+
+  let result;
+  try {
+    // No approvals store: a repeated ESCALATE fails closed instead of re-parking
+    result = await gateAndForward(
+      cfg,
+      { ...existing.envelope, acceptance: params.acceptance },
+      {
+        requestId: existing.requestId ?? undefined,
+        organizationId: existing.organizationId ?? undefined,
+        forwards: params.forwards,
+        decisionLog: params.decisionLog,
+        receipts: params.receipts,
+      }
+    );
+  } catch (e) {
+    result = { decision: "DENY" as const, reason: asMessage(e) };
+  }
+
+  const done: PendingApproval = { ...claimed, result };
+  await store.put(done.approvalId, done);
+
+  return { ok: true, approval: done };
+}
+
+export async function rejectPendingApproval(
+  store: RecordStore<PendingApproval>,
+  params: {
+    approvalId: string;
+    decidedBy: string;
+    reason?: string;
+    now?: Date;
+  }
+): Promise<{ ok: boolean; reason?: string; approval?: PendingApproval }> {
+  const now = params.now ?? new Date();
+
+  const existing = await getApproval(store, params.approvalId, now);
+  if (!existing) return { ok: false, reason: "approval_not_found" };
+  if (existing.status !== "pending") {
+    return { ok: false, reason: "approval_not_pending", approval: existing };
+  }
+
+  const rejected = await claimPending(store, existing.approvalId, now, {
+    status: "rejected",
+    decidedAt: now.toISOString(),
+    decidedBy: params.decidedBy,
+    rejectReason: params.reason,
+  });
+  if (!rejected) {
+    return { ok: false, reason: "approval_not_pending", approval: (await store.get(existing.approvalId)) ?? existing };
+  }
+
+  return { ok: true, approval: rejected };
+}
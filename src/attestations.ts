@@ -0,0 +1,144 @@
+// src/attestations.ts
+// Execution attestations: the executor's signed statement of what it did.
+//
+// Executor (executorSdk attestationKey, or signExecutionAttestation):
+// - signs { v, receiptId, executeHash, status, resultHash, completedAt, kid }
+//   with its own Ed25519 key
+// - returns it as x-solace-attestation: base64(JSON) next to its response
+//
+// Adapter (forwardPermitted):
+// - verifies it against the target's executorPublicKeyPem
+// - checks receiptId / executeHash against the receipt it forwarded, and
+//   status / resultHash against the response it actually received
+// - reports execution "attested" or "unverified" (+ executionReason);
+//   the decision stays PERMIT, the forward already happened
+
+import crypto from "crypto";
+import { canonicalize, sha256Hex } from "./canonical.js";
+import type { AdapterGateResult, ExecutionAttestation, ForwardTarget, Receipt } from "./types.js";
+
+export const ATTESTATION_HEADER = "x-solace-attestation";
+
+/**
+ * sha256 of the canonical JSON body, so re-serialization (spacing, key
+ * order) on either side does not change it; raw text when not JSON.
+ */
+export function executionResultHash(bodyText: string): string | null {
+  if (!bodyText) return null;
+  try {
+    return sha256Hex(canonicalize(JSON.parse(bodyText)));
+  } catch {
+    return sha256Hex(bodyText);
+  }
+}
+
+export function attestationSigningMaterial(attestation: Omit<ExecutionAttestation, "signature">): string {
+  return canonicalize(attestation);
+}
+
+export function signExecutionAttestation(params: {
+  receiptId: string;
+  executeHash: string;
+  httpStatus: number;
+  bodyText: string;
+  privateKeyPem: string;
+  kid?: string;
+  now?: Date;
+}): ExecutionAttestation {
+  const unsigned: Omit<ExecutionAttestation, "signature"> = {
+    v: 1,
+    receiptId: params.receiptId,
+    executeHash: params.executeHash,
+    status: params.httpStatus >= 200 && params.httpStatus < 300 ? "succeeded" : "failed",
+    resultHash: executionResultHash(params.bodyText),
+    completedAt: (params.now ?? new Date()).toISOString(),
+  };
+  if (params.kid) unsigned.kid = params.kid;
+
+  const signature = crypto
+    .sign(null, Buffer.from(attestationSigningMaterial(unsigned), "utf8"), params.privateKeyPem)
+    .toString("base64");
+
+  return { ...unsigned, signature };
+}
+
+export function encodeAttestationHeader(attestation: ExecutionAttestation): string {
+  return Buffer.from(JSON.stringify(attestation), "utf8").toString("base64");
+}
+
+export function decodeAttestationHeader(value: string | null | undefined): ExecutionAttestation | null {
+  if (!value) return null;
+  try {
+    const a = JSON.parse(Buffer.from(value, "base64").toString("utf8"));
+    return a && typeof a === "object" && !Array.isArray(a) ? a : null;
+  } catch {
+    return null;
+  }
+}
+
+export function verifyExecutionAttestation(params: {
+  attestation: ExecutionAttestation;
+  executorPublicKeyPem: string;
+  receipt: Pick<Receipt, "receiptId" | "executeHash">;
+  // What the adapter received: status and executionResultHash(body text)
+  forwardStatus: number;
+  resultHash: string | null;
+}): { ok: boolean; reason?: string } {
+  const { attestation: a } = params;
+
+  if (a.v !== 1 || typeof a.signature !== "string" || (a.status !== "succeeded" && a.status !== "failed")) {
+    return { ok: false, reason: "invalid_execution_attestation" };
+  }
+
+  const { signature, ...unsigned } = a;
+  let ok = false;
+  try {
+    ok = crypto.verify(
+      null,
+      Buffer.from(attestationSigningMaterial(unsigned), "utf8"),
+      params.executorPublicKeyPem,
+      Buffer.from(signature, "base64")
+    );
+  } catch {
+    ok = false;
+  }
+  if (!ok) return { ok: false, reason: "invalid_execution_attestation_signature" };
+
+  if (a.receiptId !== params.receipt.receiptId) return { ok: false, reason: "attestation_receipt_mismatch" };
+  if (a.executeHash !== params.receipt.executeHash) {
+    return { ok: false, reason: "attestation_execute_hash_mismatch" };
+  }
+
+  const succeeded = params.forwardStatus >= 200 && params.forwardStatus < 300;
+  if ((a.status === "succeeded") !== succeeded) return { ok: false, reason: "attestation_status_mismatch" };
+  if ((a.resultHash ?? null) !== params.resultHash) return { ok: false, reason: "attestation_result_hash_mismatch" };
+
+  return { ok: true };
+}
+
+/**
+ * Attestation fields for a delivered forward's gate result.
+ * executionAttestation is only set when it verified.
+ */
+export function attestForward(
+  target: ForwardTarget | undefined,
+  receipt: Receipt,
+  forwarded: { status: number; resultHash: string | null; attestation: string | null }
+): Pick<AdapterGateResult, "execution" | "executionReason" | "executionAttestation"> {
+  if (!forwarded.attestation) return { execution: "unverified", executionReason: "missing_execution_attestation" };
+  if (!target?.executorPublicKeyPem) return { execution: "unverified", executionReason: "no_executor_key" };
+
+  const attestation = decodeAttestationHeader(forwarded.attestation);
+  if (!attestation) return { execution: "unverified", executionReason: "invalid_execution_attestation" };
+
+  const v = verifyExecutionAttestation({
+    attestation,
+    executorPublicKeyPem: target.executorPublicKeyPem,
+    receipt,
+    forwardStatus: forwarded.status,
+    resultHash: forwarded.resultHash,
+  });
+  if (!v.ok) return { execution: "unverified", executionReason: v.reason };
+
+  return { execution: "attested", executionAttestation: attestation };
+}
@@ -0,0 +1,154 @@
+// src/batch.ts
+// All-or-nothing batch gate.
+//
+// Phase 1: route + pre-check + Core decision for EVERY envelope.
+// Phase 2: only if every item is PERMIT, mint receipts sharing one
+//          batchId and forward them in order.
+//
+// Atomicity covers authorization, not execution: once forwarding has
+// started, any item that is not a delivered 2xx (executor error,
+// outcome unknown, nothing sent) halts the remaining ones but cannot
+// undo side effects already performed by earlier executors.
+
+import crypto from "crypto";
+import type {
+  AdapterBatchResult,
+  AdapterForwardingConfig,
+  AdapterGateResult,
+  GateDecision,
+  GateOptions,
+  GateRequestEnvelope,
+} from "./types.js";
+import {
+  deadLetterIfFailed,
+  decideGate,
+  forwardPermitted,
+  mintGateReceipt,
+  recordDecision,
+} from "./gate.js";
+import { recordMintedReceipt } from "./receipts.js";
+import { asMessage } from "./errors.js";
+
+export async function gateBatch(
+  cfg: AdapterForwardingConfig,
+  envelopes: GateRequestEnvelope[],
+  opts: Pick<
+    GateOptions,
+    "requestId" | "organizationId" | "forwards" | "deadLetters" | "decisionLog" | "receipts"
+  > = {}
+): Promise<AdapterBatchResult> {
+  const batchId = crypto.randomUUID();
+  const maxItems = cfg.batchMaxItems ?? 20;
+
+  if (!Array.isArray(envelopes) || envelopes.length === 0) {
+    return { batchId, decision: "DENY", reason: "invalid_or_empty_batch", items: [] };
+  }
+  if (envelopes.length > maxItems) {
+    return { batchId, decision: "DENY", reason: "batch_too_large", items: [] };
+  }
+
+  /**
+   * ------------------------------------------------------------
+   * Phase 1: decisions only (no approvals are opened for batches)
+   * ------------------------------------------------------------
+   */
+  const decided: GateDecision[] = [];
+  for (const envelope of envelopes) {
+    decided.push(
+      await decideGate(cfg, envelope, {
+        requestId: opts.requestId,
+        organizationId: opts.organizationId,
+      })
+    );
+  }
+
+  if (decided.some((d) => !d.permitted)) {
+    const result: AdapterBatchResult = {
+      batchId,
+      decision: "DENY",
+      reason: "batch_not_fully_permitted",
+      items: decided.map((d): AdapterGateResult =>
+        d.permitted
+          ? {
+              decision: "DENY",
+              reason: "batch_aborted",
+              executeHash: d.plan.executeHash,
+              intentHash: d.plan.intentHash,
+              authorityKeyId: d.plan.core.authorityKeyId ?? null,
+            }
+          : d.result
+      ),
+    };
+
+    for (let i = 0; i < envelopes.length; i++) {
+      await recordDecision(opts, envelopes[i], result.items[i], { batchId });
+    }
+    return result;
+  }
+
+  /**
+   * ------------------------------------------------------------
+   * Phase 2: mint + forward (every item PERMIT)
+   * ------------------------------------------------------------
+   */
+  const items: AdapterGateResult[] = [];
+  let halted = false;
+
+  for (let i = 0; i < decided.length; i++) {
+    const d = decided[i];
+    if (!d.permitted) continue;
+    const { plan } = d;
+
+    if (halted) {
+      const skipped: AdapterGateResult = {
+        decision: "DENY",
+        reason: "batch_forward_halted",
+        executeHash: plan.executeHash,
+        intentHash: plan.intentHash,
+        authorityKeyId: plan.core.authorityKeyId ?? null,
+      };
+      await recordDecision(opts, envelopes[i], skipped, { batchId });
+      items.push(skipped);
+      continue;
+    }
+
+    const receipt = await mintGateReceipt(cfg, plan, { ...opts, batchId });
+    await recordMintedReceipt(opts, plan, receipt);
+
+    let item: AdapterGateResult;
+    try {
+      item = await forwardPermitted(
+        cfg,
+        { service: plan.service, operation: plan.operation, envelope: envelopes[i], receipt },
+        opts
+      );
+    } catch (e) {
+      // Nothing was sent: same shape as the skipped items (the minted receipt stays unused)
+      item = {
+        decision: "DENY",
+        reason: asMessage(e),
+        executeHash: plan.executeHash,
+        intentHash: plan.intentHash,
+        authorityKeyId: plan.core.authorityKeyId ?? null,
+      };
+    }
+
+    await deadLetterIfFailed(cfg, opts, { plan, envelope: envelopes[i], receipt, result: item });
+    await recordDecision(opts, envelopes[i], item, { batchId });
+
+    const succeeded =
+      item.forwardOutcome === "delivered" &&
+      item.forwardStatus !== undefined &&
+      item.forwardStatus >= 200 &&
+      item.forwardStatus < 300;
+    if (!succeeded) halted = true;
+    items.push(item);
+  }
+
+  return {
+    batchId,
+    decision: halted ? "DENY" : "PERMIT",
+    reason: halted ? "batch_forward_halted" : "batch_forwarded_after_core_permit",
+    items,
+  };
+}
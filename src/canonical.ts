@@ -1,24 +1,93 @@
 // src/canonical.ts
+// RFC 8785 JSON Canonicalization Scheme (JCS).
+//
+// - object keys sorted by UTF-16 code units, no whitespace
+// - numbers in ECMAScript Number.prototype.toString form (-0 → 0)
+// - strings escaped as JSON.stringify does; lone surrogates rejected
+// - undefined object properties are omitted (as JSON.stringify does)
+//
+// Anything without a JSON representation throws CanonicalizationError
+// instead of being coerced: NaN / Infinity, BigInt, functions, symbols,
+// undefined inside arrays, Dates, Maps and other non-plain objects, cycles.
+//
+// supabase/functions/_shared/canonical.ts is the Deno copy; both must
+// pass supabase/functions/_shared/canonical-vectors.json byte for byte
+// (scripts/check-canonical-vectors.ts).
 
 import crypto from "crypto";
 import type { JsonValue } from "./types.js";
+import { CanonicalizationError } from "./errors.js";
 
-function stableSort(value: any): any {
-  if (value === null || value === undefined) return value;
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
 
-  if (Array.isArray(value)) return value.map(stableSort);
+function serializeString(value: string, path: string): string {
+  if (LONE_SURROGATE.test(value)) throw new CanonicalizationError("lone_surrogate", { path });
+  return JSON.stringify(value);
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
 
-  if (typeof value === "object") {
-    const out: any = {};
-    for (const k of Object.keys(value).sort()) out[k] = stableSort(value[k]);
-    return out;
+function serialize(value: unknown, path: string, seen: Set<object>): string {
+  if (value === null) return "null";
+
+  switch (typeof value) {
+    case "boolean":
+      return value ? "true" : "false";
+    case "number":
+      if (!Number.isFinite(value)) throw new CanonicalizationError("non_finite_number", { path });
+      // ES Number::toString is the JCS number format; String(-0) is "0"
+      return String(value);
+    case "string":
+      return serializeString(value, path);
+    case "object":
+      break;
+    default:
+      // undefined, bigint, function, symbol
+      throw new CanonicalizationError("unsupported_type", { path, type: typeof value });
   }
 
-  return value;
+  const obj = value as object;
+  if (seen.has(obj)) throw new CanonicalizationError("circular_reference", { path });
+  seen.add(obj);
+
+  let out: string;
+  if (Array.isArray(obj)) {
+    out =
+      "[" +
+      obj
+        .map((item, i) => {
+          if (item === undefined) throw new CanonicalizationError("undefined_in_array", { path: `${path}/${i}` });
+          return serialize(item, `${path}/${i}`, seen);
+        })
+        .join(",") +
+      "]";
+  } else {
+    if (!isPlainObject(obj)) {
+      throw new CanonicalizationError("non_plain_object", {
+        path,
+        type: (obj as any).constructor?.name ?? "unknown",
+      });
+    }
+
+    const record = obj as Record<string, unknown>;
+    const parts: string[] = [];
+    // Default sort compares UTF-16 code units, which is what JCS specifies
+    for (const k of Object.keys(record).sort()) {
+      if (record[k] === undefined) continue;
+      parts.push(`${serializeString(k, path)}:${serialize(record[k], `${path}/${k}`, seen)}`);
+    }
+    out = "{" + parts.join(",") + "}";
+  }
+
+  seen.delete(obj);
+  return out;
 }
 
 export function canonicalize(value: JsonValue | unknown): string {
-  return JSON.stringify(stableSort(value as any));
+  return serialize(value, "", new Set());
 }
 
 export function sha256Hex(input: string): string {
@@ -36,3 +105,17 @@ export function computeExecuteHash(execute: unknown): string {
 export function computeAcceptanceHash(acceptance: unknown): string {
   return sha256Hex(canonicalize(acceptance));
 }
+
+/**
+ * For untrusted payloads (request bodies): null when the value has no
+ * JCS representation, so callers can DENY instead of failing with a 500.
+ * Other errors still throw.
+ */
+export function tryPayloadHash(compute: (value: unknown) => string, value: unknown): string | null {
+  try {
+    return compute(value);
+  } catch (e) {
+    if (e instanceof CanonicalizationError) return null;
+    throw e;
+  }
+}
@@ -1,12 +1,23 @@
 // src/config.ts
 
 import fs from "fs";
+import crypto from "crypto";
 import type {
   AdapterForwardingConfig,
   CoreClientConfig,
+  ForwardMethod,
+  ForwardOperation,
   ForwardTarget,
+  ReceiptSigningKey,
 } from "./types.js";
 import { ConfigError } from "./errors.js";
+import { loadExecuteSchemasFromDir } from "./schemas.js";
+import {
+  receiptKeyThumbprint,
+  selectActiveKey,
+  selectSigningKey,
+} from "./receiptKeys.js";
+import { RemoteReceiptSigner } from "./receiptSigner.js";
 
 function readFileIfExists(p: string): string | null {
   try {
@@ -48,6 +59,14 @@ function parseIntOpt(v: string | undefined, def: number): number {
   return Number.isFinite(n) && n > 0 ? Math.floor(n) : def;
 }
 
+function parseBoolOpt(v: string | undefined, def: boolean): boolean {
+  if (!v) return def;
+  const s = v.trim().toLowerCase();
+  if (["1", "true", "yes", "on"].includes(s)) return true;
+  if (["0", "false", "no", "off"].includes(s)) return false;
+  return def;
+}
+
 function loadPem(params: {
   pemEnv?: string;
   pathEnv?: string;
@@ -69,29 +88,224 @@ function loadPem(params: {
   });
 }
 
+type ReceiptKeysJson = Array<{
+  kid?: string;
+  status?: string;
+  privateKeyPem?: string;
+  privateKeyPath?: string;
+  publicKeyPem?: string;
+  publicKeyPath?: string;
+  notBefore?: string;
+  notAfter?: string;
+}>;
+
+function parseReceiptKeys(raw: ReceiptKeysJson): ReceiptSigningKey[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ConfigError("invalid_receipt_keys_json");
+  }
+
+  const keys: ReceiptSigningKey[] = [];
+
+  for (const k of raw) {
+    const privateKeyPem =
+      k?.privateKeyPem || (k?.privateKeyPath ? readFileIfExists(k.privateKeyPath) : null) || undefined;
+    let publicKeyPem =
+      k?.publicKeyPem || (k?.publicKeyPath ? readFileIfExists(k.publicKeyPath) : null) || undefined;
+
+    if (!publicKeyPem && privateKeyPem) {
+      publicKeyPem = crypto
+        .createPublicKey(privateKeyPem)
+        .export({ type: "spki", format: "pem" })
+        .toString();
+    }
+    if (!publicKeyPem || !publicKeyPem.includes("BEGIN")) {
+      throw new ConfigError("missing_receipt_key_public_pem", { kid: k?.kid ?? null });
+    }
+
+    const status = String(k.status || "active");
+    if (status !== "active" && status !== "retired") {
+      throw new ConfigError("invalid_receipt_key_status", { kid: k.kid ?? null, status });
+    }
+
+    for (const field of ["notBefore", "notAfter"] as const) {
+      if (k[field] !== undefined && Number.isNaN(new Date(String(k[field])).getTime())) {
+        throw new ConfigError("invalid_receipt_key_window", { kid: k.kid ?? null, field });
+      }
+    }
+
+    const kid = k.kid ? String(k.kid) : receiptKeyThumbprint(publicKeyPem);
+    if (keys.some((x) => x.kid === kid)) {
+      throw new ConfigError("duplicate_receipt_kid", { kid });
+    }
+
+    keys.push({
+      kid,
+      status,
+      publicKeyPem,
+      privateKeyPem,
+      notBefore: k.notBefore ? String(k.notBefore) : undefined,
+      notAfter: k.notAfter ? String(k.notAfter) : undefined,
+    });
+  }
+
+  return keys;
+}
+
 type TargetsJson = Record<
   string,
   {
     url: string;
     bearerToken?: string;
+    // executor id bound into v2 receipts (default: url)
+    audience?: string;
+    // ["refund", "charge"] or { "refund": { path, url, method, headers } }
+    operations?: string[] | Record<string, ForwardOperation>;
+    timeoutMs?: number;
+    maxResponseBytes?: number;
+    retries?: number;
+    retryBackoffMs?: number;
+    // executor's Ed25519 public key (verifies x-solace-attestation)
+    executorPublicKeyPem?: string;
+    executorPublicKeyPath?: string;
   }
 >;
 
+const FORWARD_METHODS: ForwardMethod[] = ["POST", "PUT", "PATCH"];
+
+// Headers the adapter sets itself; static target headers may not override them
+const RESERVED_FORWARD_HEADERS = [
+  "content-type",
+  "authorization",
+  "x-solace-receipt",
+  "idempotency-key",
+];
+
+function parseOperations(
+  service: string,
+  raw: string[] | Record<string, ForwardOperation> | undefined
+): Record<string, ForwardOperation> | undefined {
+  if (raw === undefined) return undefined;
+
+  const out: Record<string, ForwardOperation> = {};
+
+  if (Array.isArray(raw)) {
+    for (const op of raw) {
+      if (!op || typeof op !== "string") {
+        throw new ConfigError("invalid_target_operation", { service });
+      }
+      out[op] = {};
+    }
+    return out;
+  }
+
+  if (!raw || typeof raw !== "object") {
+    throw new ConfigError("invalid_target_operations", { service });
+  }
+
+  for (const op of Object.keys(raw)) {
+    const o = raw[op] || {};
+
+    const method = o.method ? (String(o.method).toUpperCase() as ForwardMethod) : undefined;
+    if (method && !FORWARD_METHODS.includes(method)) {
+      throw new ConfigError("invalid_target_operation_method", { service, operation: op, method });
+    }
+
+    const headers: Record<string, string> = {};
+    for (const h of Object.keys(o.headers || {})) {
+      if (RESERVED_FORWARD_HEADERS.includes(h.toLowerCase())) {
+        throw new ConfigError("reserved_target_operation_header", { service, operation: op, header: h });
+      }
+      headers[h] = String(o.headers![h]);
+    }
+
+    out[op] = {
+      url: o.url ? String(o.url) : undefined,
+      path: o.path ? String(o.path) : undefined,
+      method,
+      headers: Object.keys(headers).length ? headers : undefined,
+    };
+  }
+
+  return out;
+}
+
 export function loadAdapterConfigFromEnv(): AdapterForwardingConfig {
   const adapterId = mustEnv("SOLACE_ADAPTER_ID");
   const coreBaseUrl = mustEnv("SOLACE_CORE_BASE_URL");
 
-  const receiptPrivateKeyPem = loadPem({
-    pemEnv: "SOLACE_ADAPTER_RECEIPT_PRIVATE_KEY_PEM",
-    pathEnv: "SOLACE_ADAPTER_RECEIPT_PRIVATE_KEY_PATH",
-    label: "receipt_private_key",
-  });
+  /**
+   * Receipt signing keys.
+   * SOLACE_ADAPTER_RECEIPT_KEYS_JSON: [{ kid, status, privateKeyPem|Path,
+   * publicKeyPem|Path, notBefore, notAfter }] (rotation)
+   * or a single SOLACE_ADAPTER_RECEIPT_PRIVATE/PUBLIC_KEY_PEM / _PATH pair.
+   */
+  const receiptKeysJson = optEnv("SOLACE_ADAPTER_RECEIPT_KEYS_JSON");
+  const receiptKeys = receiptKeysJson
+    ? parseReceiptKeys(
+        parseJson<ReceiptKeysJson>(receiptKeysJson, "SOLACE_ADAPTER_RECEIPT_KEYS_JSON")
+      )
+    : undefined;
 
-  const receiptPublicKeyPem = loadPem({
-    pemEnv: "SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PEM",
-    pathEnv: "SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PATH",
-    label: "receipt_public_key",
-  });
+  /**
+   * Out-of-process signer (signing daemon over HTTP or a Unix socket).
+   * The private key then never enters this process; the key set above
+   * (or the single public PEM) only verifies and publishes.
+   */
+  const signerUrl = optEnv("SOLACE_ADAPTER_RECEIPT_SIGNER_URL");
+  const signerSocket = optEnv("SOLACE_ADAPTER_RECEIPT_SIGNER_SOCKET");
+  const remoteSigner = Boolean(signerUrl || signerSocket);
+
+  const signingKey = receiptKeys
+    ? remoteSigner
+      ? selectActiveKey(receiptKeys)
+      : selectSigningKey(receiptKeys)
+    : null;
+
+  const receiptPrivateKeyPem = remoteSigner
+    ? undefined
+    : signingKey?.privateKeyPem ??
+      loadPem({
+        pemEnv: "SOLACE_ADAPTER_RECEIPT_PRIVATE_KEY_PEM",
+        pathEnv: "SOLACE_ADAPTER_RECEIPT_PRIVATE_KEY_PATH",
+        label: "receipt_private_key",
+      });
+
+  const receiptPublicKeyPem =
+    signingKey?.publicKeyPem ??
+    loadPem({
+      pemEnv: "SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PEM",
+      pathEnv: "SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PATH",
+      label: "receipt_public_key",
+    });
+
+  const receiptSigner = remoteSigner
+    ? new RemoteReceiptSigner({
+        url: signerUrl,
+        socketPath: signerSocket,
+        bearerToken: optEnv("SOLACE_ADAPTER_RECEIPT_SIGNER_TOKEN"),
+        timeoutMs: parseIntOpt(optEnv("SOLACE_ADAPTER_RECEIPT_SIGNER_TIMEOUT_MS"), 2000),
+        verifyKeys: receiptKeys ?? [
+          {
+            kid: receiptKeyThumbprint(receiptPublicKeyPem),
+            status: "active",
+            publicKeyPem: receiptPublicKeyPem,
+          },
+        ],
+      })
+    : undefined;
+
+  const receiptFormatRaw = (optEnv("SOLACE_ADAPTER_RECEIPT_FORMAT") || "json").trim().toLowerCase();
+  if (receiptFormatRaw !== "json" && receiptFormatRaw !== "jws") {
+    throw new ConfigError("invalid_env_SOLACE_ADAPTER_RECEIPT_FORMAT", { value: receiptFormatRaw });
+  }
+  const receiptFormat = receiptFormatRaw as "json" | "jws";
+
+  // v2 binds operation/tenant/audience/request; opt in once executors check expectedAudience
+  const receiptVersionRaw = (optEnv("SOLACE_ADAPTER_RECEIPT_VERSION") || "1").trim();
+  if (receiptVersionRaw !== "1" && receiptVersionRaw !== "2") {
+    throw new ConfigError("invalid_env_SOLACE_ADAPTER_RECEIPT_VERSION", { value: receiptVersionRaw });
+  }
+  const receiptVersion = Number(receiptVersionRaw) as 1 | 2;
 
   const receiptTtlSeconds = parseIntOpt(
     optEnv("SOLACE_ADAPTER_RECEIPT_TTL_SECONDS"),
@@ -108,6 +322,46 @@ export function loadAdapterConfigFromEnv(): AdapterForwardingConfig {
     8000
   );
 
+  const strictCoreHashes = parseBoolOpt(
+    optEnv("SOLACE_ADAPTER_STRICT_CORE_HASHES"),
+    true
+  );
+
+  const approvalTtlSeconds = parseIntOpt(
+    optEnv("SOLACE_ADAPTER_APPROVAL_TTL_SECONDS"),
+    3600
+  );
+
+  const dataDir = optEnv("SOLACE_ADAPTER_DATA_DIR");
+
+  const deadLetterTtlSeconds = parseIntOpt(
+    optEnv("SOLACE_ADAPTER_DEAD_LETTER_TTL_SECONDS"),
+    86400
+  );
+
+  const revocationRetentionSeconds = parseIntOpt(
+    optEnv("SOLACE_ADAPTER_REVOCATION_RETENTION_SECONDS"),
+    86400
+  );
+
+  const batchMaxItems = parseIntOpt(
+    optEnv("SOLACE_ADAPTER_BATCH_MAX_ITEMS"),
+    20
+  );
+
+  const executeSchemasDir = optEnv("SOLACE_ADAPTER_EXECUTE_SCHEMAS_DIR");
+  const executeSchemas = executeSchemasDir
+    ? loadExecuteSchemasFromDir(executeSchemasDir)
+    : undefined;
+
+  const requireExecuteSchemas = parseBoolOpt(
+    optEnv("SOLACE_ADAPTER_REQUIRE_EXECUTE_SCHEMAS"),
+    false
+  );
+  if (requireExecuteSchemas && !executeSchemas) {
+    throw new ConfigError("missing_env_SOLACE_ADAPTER_EXECUTE_SCHEMAS_DIR");
+  }
+
   const coreHeadersJson = optEnv("SOLACE_CORE_HEADERS_JSON");
   const headers = coreHeadersJson
     ? parseJson<Record<string, string>>(
@@ -116,10 +370,39 @@ export function loadAdapterConfigFromEnv(): AdapterForwardingConfig {
       )
     : {};
 
+  /**
+   * Core decision signing keys.
+   * SOLACE_CORE_PUBLIC_KEYS_JSON: { "<keyId>": "<PEM>" } (rotation)
+   * or a single SOLACE_CORE_PUBLIC_KEY_PEM / _PATH.
+   */
+  const corePublicKeysJson = optEnv("SOLACE_CORE_PUBLIC_KEYS_JSON");
+  const publicKeys: Record<string, string> = corePublicKeysJson
+    ? parseJson<Record<string, string>>(
+        corePublicKeysJson,
+        "SOLACE_CORE_PUBLIC_KEYS_JSON"
+      )
+    : {
+        [optEnv("SOLACE_CORE_PUBLIC_KEY_ID") || "default"]: loadPem({
+          pemEnv: "SOLACE_CORE_PUBLIC_KEY_PEM",
+          pathEnv: "SOLACE_CORE_PUBLIC_KEY_PATH",
+          label: "core_public_key",
+        }),
+      };
+
+  if (Object.keys(publicKeys).length === 0) {
+    throw new ConfigError("missing_core_public_key_pem");
+  }
+  for (const keyId of Object.keys(publicKeys)) {
+    if (typeof publicKeys[keyId] !== "string" || !publicKeys[keyId].includes("BEGIN")) {
+      throw new ConfigError("invalid_core_public_key_pem", { keyId });
+    }
+  }
+
   const core: CoreClientConfig = {
     coreBaseUrl,
     timeoutMs,
     headers,
+    publicKeys,
   };
 
   /**
@@ -127,7 +410,9 @@ export function loadAdapterConfigFromEnv(): AdapterForwardingConfig {
    * Execution topology (prefix-routed services)
    * ------------------------------------------------------------
    * Only declared services in SOLACE_ADAPTER_TARGETS_JSON
-   * may receive forwarded execution.
+   * may receive forwarded execution. A service that declares
+   * "operations" only accepts those operations, each optionally
+   * with its own url/path template, method and static headers.
    * ------------------------------------------------------------
    */
   const targetsJsonRaw = mustEnv("SOLACE_ADAPTER_TARGETS_JSON");
@@ -136,6 +421,23 @@ export function loadAdapterConfigFromEnv(): AdapterForwardingConfig {
     "SOLACE_ADAPTER_TARGETS_JSON"
   );
 
+  const forwardTimeoutMs = parseIntOpt(
+    optEnv("SOLACE_ADAPTER_FORWARD_TIMEOUT_MS"),
+    10000
+  );
+
+  const forwardMaxResponseBytes = parseIntOpt(
+    optEnv("SOLACE_ADAPTER_FORWARD_MAX_RESPONSE_BYTES"),
+    1024 * 1024
+  );
+
+  // 0 is meaningful here (no retries), so parseIntOpt does not apply
+  const forwardRetriesRaw = Number(optEnv("SOLACE_ADAPTER_FORWARD_RETRIES") ?? 0);
+  const forwardRetries =
+    Number.isFinite(forwardRetriesRaw) && forwardRetriesRaw >= 0
+      ? Math.floor(forwardRetriesRaw)
+      : 0;
+
   const targets: Record<string, ForwardTarget> = {};
 
   for (const service of Object.keys(targetsJson)) {
@@ -144,10 +446,41 @@ export function loadAdapterConfigFromEnv(): AdapterForwardingConfig {
       throw new ConfigError("invalid_target_missing_url", { service });
     }
 
+    const executorPublicKeyPem =
+      t.executorPublicKeyPem || (t.executorPublicKeyPath ? readFileIfExists(t.executorPublicKeyPath) : null) || undefined;
+    if (executorPublicKeyPem !== undefined) {
+      let ed25519 = false;
+      try {
+        ed25519 = crypto.createPublicKey(executorPublicKeyPem).asymmetricKeyType === "ed25519";
+      } catch {
+        ed25519 = false;
+      }
+      if (!ed25519) throw new ConfigError("invalid_target_executor_public_key", { service });
+    }
+
     targets[service] = {
       service,
       url: String(t.url),
       bearerToken: t.bearerToken ? String(t.bearerToken) : undefined,
+      audience: t.audience ? String(t.audience) : undefined,
+      operations: parseOperations(service, t.operations),
+      timeoutMs: parseIntOpt(
+        t.timeoutMs !== undefined ? String(t.timeoutMs) : undefined,
+        forwardTimeoutMs
+      ),
+      maxResponseBytes: parseIntOpt(
+        t.maxResponseBytes !== undefined ? String(t.maxResponseBytes) : undefined,
+        forwardMaxResponseBytes
+      ),
+      retries:
+        t.retries !== undefined && Number.isFinite(Number(t.retries)) && Number(t.retries) >= 0
+          ? Math.floor(Number(t.retries))
+          : forwardRetries,
+      retryBackoffMs: parseIntOpt(
+        t.retryBackoffMs !== undefined ? String(t.retryBackoffMs) : undefined,
+        250
+      ),
+      executorPublicKeyPem,
     };
   }
 
@@ -155,9 +488,21 @@ export function loadAdapterConfigFromEnv(): AdapterForwardingConfig {
     adapterId,
     receiptPrivateKeyPem,
     receiptPublicKeyPem,
+    receiptKeys,
+    receiptSigner,
+    receiptFormat,
+    receiptVersion,
     receiptTtlSeconds,
     clockSkewSeconds,
+    strictCoreHashes,
     core,
     targets,
+    approvalTtlSeconds,
+    dataDir,
+    batchMaxItems,
+    deadLetterTtlSeconds,
+    revocationRetentionSeconds,
+    executeSchemas,
+    requireExecuteSchemas,
   };
 }
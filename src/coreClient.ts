@@ -7,6 +7,7 @@ import type {
   GateRequestEnvelope,
 } from "./types.js";
 import { FailClosedError } from "./errors.js";
+import { verifyCoreDecision } from "./coreSignature.js";
 
 // ------------------------------------------------------------
 // Timeout helper
@@ -49,6 +50,7 @@ export class SolaceCoreClient {
       coreBaseUrl: cfg.coreBaseUrl,
       timeoutMs: cfg.timeoutMs ?? 8000,
       headers: cfg.headers ?? {},
+      publicKeys: cfg.publicKeys ?? {},
     };
   }
 
@@ -146,7 +148,7 @@ export class SolaceCoreClient {
         };
       }
 
-      return {
+      const out: CoreExecuteResponse = {
         decision: data.decision,
         reason:
           typeof data.reason === "string" ? data.reason : undefined,
@@ -186,7 +188,40 @@ export class SolaceCoreClient {
           typeof data.error === "string"
             ? data.error
             : undefined,
+
+        signature:
+          typeof data.signature === "string"
+            ? data.signature
+            : undefined,
+
+        keyId:
+          typeof data.keyId === "string"
+            ? data.keyId
+            : undefined,
       };
+
+      // Unsigned / mis-signed decisions are indistinguishable from spoofed ones
+      const sig = verifyCoreDecision({
+        decision: out,
+        signature: out.signature,
+        publicKeys: this.cfg.publicKeys,
+      });
+      if (!sig.ok) {
+        return {
+          decision: "DENY",
+          reason: sig.reason || "core_signature_invalid",
+        };
+      }
+
+      // A PERMIT must sign the hashes it binds, or the receipt chain is unverifiable
+      if (out.decision === "PERMIT" && (!out.executeHash || !out.intentHash)) {
+        return {
+          decision: "DENY",
+          reason: "core_signed_hashes_missing",
+        };
+      }
+
+      return out;
     } catch {
       return {
         decision: "DENY",
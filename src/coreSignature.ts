@@ -0,0 +1,104 @@
+// src/coreSignature.ts
+// Core decision signatures (Ed25519).
+//
+// Core signs the decision, the bound hashes, authorityKeyId and its
+// timestamps. The adapter verifies before acting on ANY decision and
+// embeds the signature in the receipt, so executors can verify the
+// chain Core → Adapter → Executor themselves.
+
+import crypto from "crypto";
+import { canonicalize } from "./canonical.js";
+import type { CoreExecuteResponse, Receipt } from "./types.js";
+
+export interface CoreSignedDecision {
+  decision: CoreExecuteResponse["decision"];
+  executeHash?: string;
+  intentHash?: string;
+  authorityKeyId?: string | null;
+  issuedAt?: string;
+  expiresAt?: string;
+  time?: string;
+  keyId?: string;
+}
+
+export function coreDecisionSigningMaterial(d: CoreSignedDecision): string {
+  return canonicalize({
+    decision: d.decision,
+    executeHash: d.executeHash,
+    intentHash: d.intentHash,
+    authorityKeyId: d.authorityKeyId ?? null,
+    issuedAt: d.issuedAt,
+    expiresAt: d.expiresAt,
+    time: d.time,
+    keyId: d.keyId,
+  });
+}
+
+function selectCoreKey(
+  publicKeys: Record<string, string>,
+  keyId?: string
+): string | null {
+  const ids = Object.keys(publicKeys || {});
+  if (keyId && publicKeys[keyId]) return publicKeys[keyId];
+
+  // Single unnamed key (SOLACE_CORE_PUBLIC_KEY_PEM) verifies any keyId
+  if (ids.length === 1 && ids[0] === "default") return publicKeys.default;
+
+  return null;
+}
+
+export function verifyCoreDecision(params: {
+  decision: CoreSignedDecision;
+  signature?: string;
+  publicKeys: Record<string, string>;
+}): { ok: boolean; reason?: string } {
+  const { decision, signature, publicKeys } = params;
+
+  if (!publicKeys || Object.keys(publicKeys).length === 0) {
+    return { ok: false, reason: "missing_core_public_keys" };
+  }
+  if (!signature) return { ok: false, reason: "core_signature_missing" };
+
+  const pem = selectCoreKey(publicKeys, decision.keyId);
+  if (!pem) return { ok: false, reason: "core_signature_key_unknown" };
+
+  let sigOk = false;
+  try {
+    sigOk = crypto.verify(
+      null,
+      Buffer.from(coreDecisionSigningMaterial(decision), "utf8"),
+      pem,
+      Buffer.from(signature, "base64")
+    );
+  } catch {
+    sigOk = false;
+  }
+
+  if (!sigOk) return { ok: false, reason: "core_signature_invalid" };
+  return { ok: true };
+}
+
+/**
+ * Executor-side: re-verify the Core PERMIT embedded in a receipt.
+ */
+export function verifyReceiptCoreSignature(params: {
+  receipt: Receipt;
+  corePublicKeys: Record<string, string>;
+}): { ok: boolean; reason?: string } {
+  const { receipt, corePublicKeys } = params;
+
+  return verifyCoreDecision({
+    decision: {
+      decision: receipt.coreDecision,
+      executeHash: receipt.executeHash,
+      intentHash: receipt.intentHash,
+      authorityKeyId: receipt.authorityKeyId ?? null,
+      issuedAt: receipt.coreIssuedAt,
+      expiresAt: receipt.coreExpiresAt,
+      time: receipt.coreTime,
+      keyId: receipt.coreKeyId,
+    },
+    signature: receipt.coreSignature,
+    publicKeys: corePublicKeys,
+  });
+}
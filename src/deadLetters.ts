@@ -0,0 +1,187 @@
+// src/deadLetters.ts
+// Dead-letter queue for forwards that failed after Core PERMIT.
+//
+// Entries are written by gateAndForward / gateBatch (see
+// deadLetterIfFailed in gate.ts). A re-drive is a brand-new gate call:
+// fresh Core decision, fresh receipt. The original receipt is never
+// re-used here (that is /v1/gate/retry, inside the receipt TTL).
+//
+// Entries past their re-drive window are marked abandoned.
+//
+// Every status change is a store.update() compare-and-set, so the
+// gateway and the CLI can share a file-backed store: a re-drive first
+// claims the entry ("redriving"), and only the claim holder records the
+// outcome. A claim whose holder died is taken over after REDRIVE_LEASE_MS.
+
+import type {
+  Acceptance,
+  AdapterForwardingConfig,
+  DecisionLog,
+  DeadLetterEntry,
+  DeadLetterStatus,
+  ForwardRecord,
+  ReceiptStore,
+  RecordStore,
+} from "./types.js";
+import { gateAndForward } from "./gate.js";
+import { asMessage } from "./errors.js";
+
+// Longer than a Core round trip plus a forward with its retries
+const REDRIVE_LEASE_MS = 5 * 60 * 1000;
+
+function isExpired(entry: DeadLetterEntry, now: Date): boolean {
+  const exp = new Date(entry.expiresAt).getTime();
+  return Number.isNaN(exp) || now.getTime() > exp;
+}
+
+// Open, or claimed by a re-drive that never recorded its outcome
+function isClaimable(entry: DeadLetterEntry, now: Date): boolean {
+  if (entry.status === "open") return true;
+  if (entry.status !== "redriving") return false;
+  const claimedAt = new Date(entry.updatedAt).getTime();
+  return Number.isNaN(claimedAt) || now.getTime() - claimedAt > REDRIVE_LEASE_MS;
+}
+
+async function refreshStatus(
+  store: RecordStore<DeadLetterEntry>,
+  entry: DeadLetterEntry,
+  now: Date
+): Promise<DeadLetterEntry> {
+  if (!isClaimable(entry, now) || !isExpired(entry, now)) return entry;
+
+  const abandoned = await store.update(entry.id, (current) =>
+    current && isClaimable(current, now) && isExpired(current, now)
+      ? { ...current, status: "abandoned", updatedAt: now.toISOString() }
+      : null
+  );
+  // Changed concurrently: report what won
+  return abandoned ?? (await store.get(entry.id)) ?? entry;
+}
+
+export async function getDeadLetter(
+  store: RecordStore<DeadLetterEntry>,
+  id: string,
+  now: Date = new Date()
+): Promise<DeadLetterEntry | null> {
+  const entry = await store.get(id);
+  if (!entry) return null;
+  return refreshStatus(store, entry, now);
+}
+
+export async function listDeadLetters(
+  store: RecordStore<DeadLetterEntry>,
+  params: { status?: DeadLetterStatus; now?: Date } = {}
+): Promise<DeadLetterEntry[]> {
+  const now = params.now ?? new Date();
+
+  const out: DeadLetterEntry[] = [];
+  for (const e of await store.list()) {
+    const current = await refreshStatus(store, e, now);
+    if (!params.status || current.status === params.status) out.push(current);
+  }
+
+  return out.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function redriveDeadLetter(
+  cfg: AdapterForwardingConfig,
+  store: RecordStore<DeadLetterEntry>,
+  params: {
+    id: string;
+    by: string;
+    // Fresh acceptance; defaults to the original one (Core rejects it once expired)
+    acceptance?: Acceptance;
+    forwards?: RecordStore<ForwardRecord>;
+    decisionLog?: DecisionLog;
+    receipts?: ReceiptStore;
+    now?: Date;
+  }
+): Promise<{ ok: boolean; reason?: string; entry?: DeadLetterEntry }> {
+  const now = params.now ?? new Date();
+
+  const entry = await getDeadLetter(store, params.id, now);
+  if (!entry) return { ok: false, reason: "dead_letter_not_found" };
+  if (entry.status === "abandoned") {
+    return { ok: false, reason: "dead_letter_abandoned", entry };
+  }
+  if (!isClaimable(entry, now)) {
+    return { ok: false, reason: "dead_letter_not_open", entry };
+  }
+
+  // Claim before the Core round trip so a concurrent re-drive cannot forward again
+  const claimedAt = now.toISOString();
+  const claimed = await store.update(entry.id, (current) =>
+    current && isClaimable(current, now) ? { ...current, status: "redriving", updatedAt: claimedAt } : null
+  );
+  if (!claimed) {
+    return { ok: false, reason: "dead_letter_not_open", entry: (await store.get(entry.id)) ?? entry };
+  }
+
+  // Only the claim holder records the outcome (a lease takeover voids it)
+  const settle = (fn: (current: DeadLetterEntry) => DeadLetterEntry) =>
+    store.update(claimed.id, (current) =>
+      current?.status === "redriving" && current.updatedAt === claimedAt ? fn(current) : null
+    );
+
+  // A /v1/gate/retry may have delivered the original receipt meanwhile
+  const original = params.forwards ? await params.forwards.get(claimed.receiptId) : null;
+  if (original?.outcome === "delivered") {
+    const resolved = await settle((current) => ({
+      ...current,
+      status: "resolved",
+      forwardStatus: original.forwardStatus,
+      updatedAt: new Date().toISOString(),
+    }));
+    return { ok: false, reason: "dead_letter_already_delivered", entry: resolved ?? claimed };
+  }
+
+  let result;
+  try {
+    // No deadLetters store: a failed re-drive updates this entry instead of adding one
+    result = await gateAndForward(
+      cfg,
+      { ...claimed.envelope, acceptance: params.acceptance ?? claimed.envelope.acceptance },
+      {
+        organizationId: claimed.organizationId ?? undefined,
+        requestId: claimed.requestId ?? undefined,
+        forwards: params.forwards,
+        decisionLog: params.decisionLog,
+        receipts: params.receipts,
+      }
+    );
+  } catch (e) {
+    result = { decision: "DENY" as const, reason: asMessage(e) };
+  }
+
+  const delivered =
+    result.forwardOutcome === "delivered" &&
+    result.forwardStatus !== undefined &&
+    result.forwardStatus < 500;
+
+  const updated = await settle((current) => ({
+    ...current,
+    status: delivered ? "redriven" : "open",
+    updatedAt: new Date().toISOString(),
+    redrives: [
+      ...current.redrives,
+      {
+        at: now.toISOString(),
+        by: params.by,
+        decision: result.decision,
+        reason: result.reason,
+        receiptId: result.receipt?.receiptId,
+        forwardStatus: result.forwardStatus,
+        forwardOutcome: result.forwardOutcome,
+      },
+    ],
+  }));
+  if (!updated) {
+    // Lease expired mid-flight and another re-drive took over
+    return { ok: false, reason: "dead_letter_claim_lost", entry: (await store.get(claimed.id)) ?? claimed };
+  }
+
+  if (!delivered) {
+    return { ok: false, reason: result.reason || "redrive_failed", entry: updated };
+  }
+  return { ok: true, entry: updated };
+}
@@ -0,0 +1,196 @@
+// src/decisionLog.ts
+// Tamper-evident, hash-chained local decision log.
+//
+// Every gate outcome is appended as one JSON line:
+//   hash = sha256Hex(canonicalize(entry without hash))
+//   prevHash = hash of the previous entry (GENESIS_HASH for seq 1)
+//
+// Editing an entry breaks its hash; deleting or reordering entries
+// breaks the seq / prevHash chain. Truncating the TAIL is only
+// detectable against an anchored head (expectedHead / minEntries),
+// e.g. the head hash exported to auditors periodically.
+//
+// Appends hold a lock file (decision-log.jsonl.lock) and re-read the
+// head when the file changed underneath, so processes sharing the data
+// dir (gateway replicas, the dead-letter CLI) extend one chain. A last
+// line cut short by a crash is truncated away before the next append.
+
+import fs from "fs";
+import path from "path";
+import { canonicalize, sha256Hex } from "./canonical.js";
+import type {
+  AdapterForwardingConfig,
+  DecisionLog,
+  DecisionLogEntry,
+  DecisionLogRecord,
+} from "./types.js";
+import { FailClosedError } from "./errors.js";
+import { acquireLockFile } from "./stores.js";
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export function decisionLogEntryHash(entry: Omit<DecisionLogEntry, "hash">): string {
+  return sha256Hex(canonicalize(entry));
+}
+
+function chain(
+  record: DecisionLogRecord,
+  prev: { seq: number; hash: string }
+): DecisionLogEntry {
+  const unhashed: Omit<DecisionLogEntry, "hash"> = {
+    ...record,
+    seq: prev.seq + 1,
+    time: new Date().toISOString(),
+    prevHash: prev.hash,
+  };
+  return { ...unhashed, hash: decisionLogEntryHash(unhashed) };
+}
+
+export class MemoryDecisionLog implements DecisionLog {
+  private entries: DecisionLogEntry[] = [];
+
+  async append(record: DecisionLogRecord): Promise<DecisionLogEntry> {
+    const last = this.entries[this.entries.length - 1];
+    const entry = chain(record, last ?? { seq: 0, hash: GENESIS_HASH });
+    this.entries.push(entry);
+    return entry;
+  }
+
+  async readAll(): Promise<DecisionLogEntry[]> {
+    return this.entries.map((e) => ({ ...e }));
+  }
+}
+
+export class FileDecisionLog implements DecisionLog {
+  private head: { seq: number; hash: string } | null = null;
+  // File size after our last append; any other size means another writer
+  private knownSize = -1;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Reads the head from the file tail (entries are small; 64 KiB is ample).
+   * A tail without its final newline is an append cut short by a crash:
+   * it never became an entry, so it is truncated and the chain continues
+   * from the last whole line. Returns the (possibly repaired) file size.
+   */
+  private readHead(size: number): { head: { seq: number; hash: string }; size: number } {
+    if (size === 0) return { head: { seq: 0, hash: GENESIS_HASH }, size };
+
+    const length = Math.min(size, 64 * 1024);
+    const fd = fs.openSync(this.filePath, "r");
+    let tail: string;
+    try {
+      const buf = Buffer.alloc(length);
+      fs.readSync(fd, buf, 0, length, size - length);
+      // latin1: one char per byte, so string offsets are file offsets
+      tail = buf.toString("latin1");
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    if (!tail.endsWith("\n")) {
+      const cut = tail.lastIndexOf("\n");
+      if (cut < 0 && length < size) throw new FailClosedError("decision_log_partial_line", { path: this.filePath });
+
+      const complete = size - length + cut + 1;
+      console.error(`[decision-log] truncating ${size - complete} bytes of a partial last line in ${this.filePath}`);
+      fs.truncateSync(this.filePath, complete);
+      return this.readHead(complete);
+    }
+
+    const lines = tail.split("\n").filter((l) => l.trim());
+    const last = JSON.parse(Buffer.from(lines[lines.length - 1], "latin1").toString("utf8")) as DecisionLogEntry;
+    return { head: { seq: last.seq, hash: last.hash }, size };
+  }
+
+  append(record: DecisionLogRecord): Promise<DecisionLogEntry> {
+    // Serialized in-process; the lock file serializes other processes
+    const next = this.queue.then(async () => {
+      const unlock = await acquireLockFile(this.filePath + ".lock", "decision_log_lock_timeout");
+      try {
+        let size = fs.existsSync(this.filePath) ? fs.statSync(this.filePath).size : 0;
+        if (!this.head || size !== this.knownSize) ({ head: this.head, size } = this.readHead(size));
+
+        const entry = chain(record, this.head);
+        const line = JSON.stringify(entry) + "\n";
+        fs.appendFileSync(this.filePath, line, "utf8");
+
+        this.head = { seq: entry.seq, hash: entry.hash };
+        this.knownSize = size + Buffer.byteLength(line);
+        return entry;
+      } finally {
+        unlock();
+      }
+    });
+
+    this.queue = next.catch(() => {
+      // Re-read the head on the next append; the failed write may be partial
+      this.head = null;
+    });
+    return next;
+  }
+
+  async readAll(): Promise<DecisionLogEntry[]> {
+    return readDecisionLogFile(this.filePath);
+  }
+}
+
+export function readDecisionLogFile(filePath: string): DecisionLogEntry[] {
+  if (!fs.existsSync(filePath)) return [];
+
+  const lines = fs.readFileSync(filePath, "utf8").split("\n");
+  const out: DecisionLogEntry[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    try {
+      out.push(JSON.parse(lines[i]) as DecisionLogEntry);
+    } catch {
+      throw new Error(`decision_log_corrupt_line:${i + 1}`);
+    }
+  }
+  return out;
+}
+
+export function verifyDecisionLog(
+  entries: DecisionLogEntry[],
+  params: { expectedHead?: string; minEntries?: number } = {}
+): { ok: boolean; reason?: string; brokenAtSeq?: number; count: number; head: string } {
+  let prev = { seq: 0, hash: GENESIS_HASH };
+
+  for (const entry of entries) {
+    if (entry.seq !== prev.seq + 1) {
+      return { ok: false, reason: "seq_gap", brokenAtSeq: prev.seq + 1, count: entries.length, head: prev.hash };
+    }
+    if (entry.prevHash !== prev.hash) {
+      return { ok: false, reason: "prev_hash_mismatch", brokenAtSeq: entry.seq, count: entries.length, head: prev.hash };
+    }
+
+    const { hash, ...unhashed } = entry;
+    if (decisionLogEntryHash(unhashed) !== hash) {
+      return { ok: false, reason: "entry_hash_mismatch", brokenAtSeq: entry.seq, count: entries.length, head: prev.hash };
+    }
+
+    prev = { seq: entry.seq, hash };
+  }
+
+  if (params.minEntries !== undefined && entries.length < params.minEntries) {
+    return { ok: false, reason: "log_truncated", count: entries.length, head: prev.hash };
+  }
+  if (params.expectedHead && !entries.some((e) => e.hash === params.expectedHead)) {
+    return { ok: false, reason: "anchored_head_missing", count: entries.length, head: prev.hash };
+  }
+
+  return { ok: true, count: entries.length, head: prev.hash };
+}
+
+/**
+ * File-backed when cfg.dataDir is set, in-memory otherwise.
+ */
+export function openDecisionLog(cfg: AdapterForwardingConfig): DecisionLog {
+  if (!cfg.dataDir) return new MemoryDecisionLog();
+
+  fs.mkdirSync(cfg.dataDir, { recursive: true });
+  return new FileDecisionLog(path.join(cfg.dataDir, "decision-log.jsonl"));
+}
@@ -29,15 +29,62 @@ export class FailClosedError extends Error {
   }
 }
 
+export type ForwardingReason =
+  | "unknown_forward_target"
+  | "unknown_operation"
+  | "executor_timeout"
+  | "executor_unreachable"
+  | "executor_response_too_large"
+  // The last attempt got 502/503/504: a proxy answered, the executor may or may not have acted
+  | "executor_gateway_error";
+
 export class ForwardingError extends Error {
+  reason: ForwardingReason;
   details?: ErrorDetails;
-  constructor(message: string, details?: ErrorDetails) {
-    super(message + formatDetails(details));
+  constructor(reason: ForwardingReason, details?: ErrorDetails) {
+    super(reason + formatDetails(details));
     this.name = "ForwardingError";
+    this.reason = reason;
     this.details = details;
   }
 }
 
+export type CanonicalizationReason =
+  | "non_finite_number"
+  | "unsupported_type"
+  | "undefined_in_array"
+  | "non_plain_object"
+  | "circular_reference"
+  | "lone_surrogate";
+
+/**
+ * Value has no RFC 8785 (JCS) representation. details.path is a
+ * JSON-pointer-ish location of the offending value.
+ */
+export class CanonicalizationError extends Error {
+  reason: CanonicalizationReason;
+  details?: ErrorDetails;
+  constructor(reason: CanonicalizationReason, details?: ErrorDetails) {
+    super(reason + formatDetails(details));
+    this.name = "CanonicalizationError";
+    this.reason = reason;
+    this.details = details;
+  }
+}
+
+/**
+ * Forwarding failures after which the executor MAY have acted.
+ * Core permitted the action; its execution outcome is unknown.
+ */
+export function isExecutionUnknown(err: unknown): err is ForwardingError {
+  return (
+    err instanceof ForwardingError &&
+    (err.reason === "executor_timeout" ||
+      err.reason === "executor_unreachable" ||
+      err.reason === "executor_response_too_large")
+  );
+}
+
 export function asMessage(err: unknown): string {
   if (err instanceof Error) return err.message;
   if (typeof err === "string") return err;
@@ -4,11 +4,12 @@
 // In production:
 // - put this behind private networking (no public ingress)
 // - allow only adapter identity at network/mTLS layer
-// - enforce idempotency in a real database constraint
+// - back idempotency with a database (Sqlite/PostgresIdempotencyStore)
 
 import express from "express";
-import type { JsonObject } from "./types.js";
-import { verifyExecutorRequest } from "./executorVerifier.js";
+import { requireSolaceReceipt, type SolaceReceiptRequest } from "./executorSdk.js";
+import { MemoryIdempotencyStore } from "./idempotency.js";
+import { TrustRegistryLoader } from "./trustRegistry.js";
 import { ConfigError } from "./errors.js";
 
 const app = express();
@@ -17,57 +18,75 @@ app.use(express.json({ limit: "1mb" }));
 const EXPECTED_SERVICE = process.env.EXECUTOR_SERVICE_NAME || "payments";
 const RECEIPT_PUB = process.env.SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PEM;
 
-if (!RECEIPT_PUB || !RECEIPT_PUB.includes("BEGIN")) {
+// v2 receipts name their executor: the target's "audience", or its URL.
+// Comma-separated; without it v2 receipts are rejected.
+const EXPECTED_AUDIENCE = (process.env.EXECUTOR_AUDIENCE || "")
+  .split(",")
+  .map((s) => s.trim())
+  .filter(Boolean);
+
+// End of the v1 migration window (ISO time); unset accepts v1 indefinitely
+const ACCEPT_V1_UNTIL = process.env.EXECUTOR_ACCEPT_V1_UNTIL || undefined;
+
+// This executor's own Ed25519 key; responses carry a signed x-solace-attestation
+const ATTESTATION_KEY = process.env.EXECUTOR_ATTESTATION_PRIVATE_KEY_PEM;
+
+// Several adapters: a registry file, or a signed bundle URL (needs the bundle key).
+// When set, the registry's keys are used instead of SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PEM.
+const TRUST_REGISTRY_FILE = process.env.EXECUTOR_TRUST_REGISTRY_FILE || undefined;
+const TRUST_REGISTRY_URL = process.env.EXECUTOR_TRUST_REGISTRY_URL || undefined;
+const TRUST_BUNDLE_PUB = process.env.EXECUTOR_TRUST_BUNDLE_PUBLIC_KEY_PEM || undefined;
+
+const trustRegistry =
+  TRUST_REGISTRY_FILE || TRUST_REGISTRY_URL
+    ? new TrustRegistryLoader({
+        file: TRUST_REGISTRY_FILE,
+        url: TRUST_REGISTRY_URL,
+        bundlePublicKeyPem: TRUST_BUNDLE_PUB,
+      })
+    : undefined;
+
+if (!trustRegistry && (!RECEIPT_PUB || !RECEIPT_PUB.includes("BEGIN"))) {
   throw new ConfigError("executor_missing_SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PEM");
 }
 
-// naive in-memory idempotency for demo only
-const SEEN = new Set<string>();
+if (trustRegistry) {
+  void trustRegistry.start().then((ok) => {
+    if (!ok) console.error(`[TRUST] registry load failed: ${trustRegistry.lastError}`);
+  });
+}
 
 app.get("/health", (_req, res) => {
   res.json({ status: "ok", service: `executor:${EXPECTED_SERVICE}` });
 });
 
-app.post("/internal/execute", (req, res) => {
-  const receiptHeader = req.header("x-solace-receipt") || undefined;
-
-  const body = req.body as { intent?: JsonObject; execute?: JsonObject };
-  const execute = body?.execute;
-
-  const v = verifyExecutorRequest({
-    receiptHeader,
-    receiptPublicKeyPem: RECEIPT_PUB,
-    expectedService: EXPECTED_SERVICE,
-    execute,
-  });
-
-  if (!v.ok) {
-    return res.status(200).json({
-      decision: "DENY",
-      reason: v.reason || "receipt_verification_failed",
-    });
-  }
+app.post(
+  "/internal/execute",
+  requireSolaceReceipt({
+    service: EXPECTED_SERVICE,
+    keys: trustRegistry ? undefined : RECEIPT_PUB,
+    trustRegistry,
+    audience: EXPECTED_AUDIENCE,
+    acceptV1Until: ACCEPT_V1_UNTIL,
+    // in-memory for demo only: SqliteIdempotencyStore / PostgresIdempotencyStore in production
+    idempotencyStore: new MemoryIdempotencyStore(),
+    attestationKey: ATTESTATION_KEY ? { privateKeyPem: ATTESTATION_KEY } : undefined,
+  }),
+  (req, res) => {
+    const receipt = (req as SolaceReceiptRequest).solaceReceipt;
 
-  // idempotency (demo): use receiptId
-  const receiptId = v.receipt!.receiptId;
-  if (SEEN.has(receiptId)) {
+    // EXECUTE SIDE EFFECT HERE
+    // In demo, we just return success.
     return res.status(200).json({
-      decision: "DENY",
-      reason: "idempotency_replay_detected",
+      decision: "PERMIT",
+      executed: true,
+      service: EXPECTED_SERVICE,
+      executeHash: receipt.executeHash,
+      actorId: receipt.actorId,
+      receiptId: receipt.receiptId,
     });
   }
-  SEEN.add(receiptId);
-
-  // EXECUTE SIDE EFFECT HERE
-  // In demo, we just return success.
-  return res.status(200).json({
-    decision: "PERMIT",
-    executed: true,
-    service: EXPECTED_SERVICE,
-    executeHash: v.executeHash,
-    receiptId,
-  });
-});
+);
 
 const PORT = process.env.PORT ? Number(process.env.PORT) : 9090;
 app.listen(PORT, () => {
@@ -0,0 +1,402 @@
+// src/executorSdk.ts
+// Executor SDK: receipt enforcement as a wrapper around handlers.
+// - requireSolaceReceipt: Express middleware (after express.json())
+// - withSolaceReceipt:    Fetch-API handlers (Deno, edge runtimes, Bun)
+//
+// Both run verifyExecutorRequest on x-solace-receipt + { intent, execute },
+// then claim the request in the IdempotencyStore, and only then hand the
+// verified receipt to the handler. The handler's response is stored
+// (complete) and returned as-is to later requests with the same key,
+// marked x-solace-idempotent-replay: true; 5xx responses and thrown
+// errors release the claim (fail) so the adapter's retry executes again.
+// With attestationKey, every non-5xx response carries a signed
+// x-solace-attestation (see attestations.ts) over the bytes sent;
+// replays carry the attestation stored with the first response.
+//
+// Any failure answers with the same DENY body
+// ({ decision: "DENY", reason, ... }) and status:
+//   400 malformed request body
+//   403 receipt / binding verification failed
+//   405 not a POST (Fetch wrapper only)
+//   503 idempotency store / key set unavailable, or the first request
+//       is still running (idempotency_in_progress); the adapter retries these
+
+import type { NextFunction, Request as ExpressRequest, RequestHandler, Response as ExpressResponse } from "express";
+import type {
+  ExecuteSchemaValidator,
+  ExecutorDenyBody,
+  IdempotencyResult,
+  IdempotencyStore,
+  ReceiptVerificationKey,
+  RevocationChecker,
+  TrustRegistry,
+  VerifiedExecution,
+} from "./types.js";
+import { verifyExecutorRequest } from "./executorVerifier.js";
+import { ATTESTATION_HEADER, encodeAttestationHeader, signExecutionAttestation } from "./attestations.js";
+import { ConfigError } from "./errors.js";
+
+export interface SolaceReceiptOptions {
+  // This executor's service (receipt.service)
+  service: string;
+  // Pinned adapter public key PEM, the published key set, or a getter
+  // returning the current set (e.g. refreshed from /v1/receipt-keys)
+  keys?: string | ReceiptVerificationKey[] | (() => ReceiptVerificationKey[]);
+  // Instead of keys: several adapters, each with its own keys / services
+  // (e.g. a started TrustRegistryLoader)
+  trustRegistry?: TrustRegistry;
+  // v2: this executor's audience id(s) / URL(s); required for v2 receipts
+  audience?: string | string[];
+  idempotencyStore: IdempotencyStore;
+  // What makes two requests "the same": the receipt (default), the
+  // execute payload (also across receipts), or either
+  idempotencyKey?: "receiptId" | "executeHash" | "both";
+  // Minimum record retention; records always outlive the receipt
+  idempotencyTtlSeconds?: number;
+  // This executor's Ed25519 key: sign execution attestations
+  attestationKey?: { privateKeyPem: string; kid?: string };
+
+  // Default true: body.intent must be present and match the receipt
+  requireIntent?: boolean;
+  clockSkewSeconds?: number;
+  acceptV1?: boolean;
+  acceptV1Until?: string | Date;
+  expectedOrganizationId?: string;
+  corePublicKeys?: Record<string, string>;
+  executeSchemas?: ExecuteSchemaValidator;
+  revocationChecker?: RevocationChecker;
+}
+
+export interface SolaceReceiptContext {
+  receipt: VerifiedExecution;
+  intent: unknown;
+  execute: unknown;
+}
+
+export type SolaceReceiptRequest = ExpressRequest & { solaceReceipt: VerifiedExecution };
+
+export type SolaceRequestCheck =
+  | { ok: true; context: SolaceReceiptContext; idempotencyKeys: string[] }
+  | { ok: false; status: number; body: ExecutorDenyBody }
+  // Same key already completed: answer with the stored response
+  | { ok: false; replay: IdempotencyResult };
+
+export const REPLAY_HEADER = "x-solace-idempotent-replay";
+
+const DENY_STATUS: Record<string, number> = {
+  invalid_json: 400,
+  invalid_or_missing_executor_request: 400,
+  method_not_allowed: 405,
+  idempotency_in_progress: 503,
+  idempotency_store_unavailable: 503,
+  receipt_keys_unavailable: 503,
+};
+
+export function executorDenyStatus(reason: string): number {
+  return DENY_STATUS[reason] ?? 403;
+}
+
+function deny(reason: string, extra: Omit<ExecutorDenyBody, "decision" | "reason"> = {}): SolaceRequestCheck {
+  return { ok: false, status: executorDenyStatus(reason), body: { decision: "DENY", reason, ...extra } };
+}
+
+export function idempotencyKeys(
+  verified: VerifiedExecution,
+  on: SolaceReceiptOptions["idempotencyKey"] = "receiptId"
+): string[] {
+  const keys: string[] = [];
+  if (on !== "executeHash") keys.push(`receipt:${verified.receiptId}`);
+  if (on !== "receiptId") keys.push(`execute:${verified.executeHash}`);
+  return keys;
+}
+
+function attestationHeader(
+  options: SolaceReceiptOptions,
+  receipt: VerifiedExecution,
+  status: number,
+  bodyText: string
+): string | undefined {
+  if (!options.attestationKey || status >= 500) return undefined;
+  return encodeAttestationHeader(
+    signExecutionAttestation({
+      receiptId: receipt.receiptId,
+      executeHash: receipt.executeHash,
+      httpStatus: status,
+      bodyText,
+      privateKeyPem: options.attestationKey.privateKeyPem,
+      kid: options.attestationKey.kid,
+    })
+  );
+}
+
+/**
+ * The stored response, byte for byte, with the attestation signed when
+ * it executed. Never re-signed: with idempotencyKey "executeHash" the
+ * receipt presented now may not be the one that executed, and the
+ * attestation names the one that did.
+ */
+function replayResponse(replay: IdempotencyResult): { status: number; text: string; headers: Record<string, string> } {
+  // Records stored before bodyText existed: the JSON body
+  const text = replay.bodyText ?? JSON.stringify(replay.body);
+  const attestation = replay.attestation;
+  return {
+    status: replay.status,
+    text,
+    headers: {
+      "content-type": replay.contentType ?? "application/json",
+      [REPLAY_HEADER]: "true",
+      ...(attestation ? { [ATTESTATION_HEADER]: attestation } : {}),
+    },
+  };
+}
+
+// Stored as JSON when it parses, otherwise as text
+function storedBody(text: string): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function contentType(value: number | string | string[] | undefined): string | undefined {
+  return value === undefined ? undefined : String(value);
+}
+
+function toBuffer(chunk: unknown, encoding: unknown): Buffer {
+  if (Buffer.isBuffer(chunk)) return chunk;
+  if (chunk instanceof Uint8Array) return Buffer.from(chunk);
+  return Buffer.from(String(chunk), typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8");
+}
+
+function checkOptions(options: SolaceReceiptOptions) {
+  if (!options?.service) throw new ConfigError("missing_executor_service");
+  if (!options.trustRegistry && (!options.keys || (Array.isArray(options.keys) && !options.keys.length))) {
+    throw new ConfigError("missing_receipt_verification_keys");
+  }
+  if (!options.idempotencyStore) throw new ConfigError("missing_idempotency_store");
+}
+
+/**
+ * Verification + replay claim shared by both wrappers. Never throws:
+ * key getter and store failures fail closed with a 503 DENY.
+ */
+export async function checkSolaceRequest(
+  options: SolaceReceiptOptions,
+  request: { receiptHeader?: string | null; body: unknown }
+): Promise<SolaceRequestCheck> {
+  const body = request.body as { intent?: unknown; execute?: unknown } | null;
+  if (!body || typeof body !== "object" || Array.isArray(body) || !body.execute) {
+    return deny("invalid_or_missing_executor_request");
+  }
+
+  let receiptKeys: string | ReceiptVerificationKey[] | undefined;
+  try {
+    receiptKeys = typeof options.keys === "function" ? options.keys() : options.keys;
+  } catch {
+    return deny("receipt_keys_unavailable");
+  }
+
+  const v = verifyExecutorRequest({
+    receiptHeader: request.receiptHeader ?? undefined,
+    receiptPublicKeyPem: typeof receiptKeys === "string" ? receiptKeys : undefined,
+    receiptKeys: typeof receiptKeys === "string" ? undefined : receiptKeys,
+    trustRegistry: options.trustRegistry,
+    expectedService: options.service,
+    expectedAudience: options.audience,
+    expectedOrganizationId: options.expectedOrganizationId,
+    acceptV1: options.acceptV1,
+    acceptV1Until: options.acceptV1Until,
+    clockSkewSeconds: options.clockSkewSeconds,
+    corePublicKeys: options.corePublicKeys,
+    executeSchemas: options.executeSchemas,
+    revocationChecker: options.revocationChecker,
+    execute: body.execute,
+    intent: body.intent,
+    requireIntent: options.requireIntent ?? true,
+  });
+  if (!v.ok || !v.verified) {
+    return deny(v.reason || "receipt_verification_failed", { validationErrors: v.validationErrors });
+  }
+
+  const receiptId = v.verified.receiptId;
+  const keys = idempotencyKeys(v.verified, options.idempotencyKey);
+
+  // The receipt stops verifying after expiresAt + skew; the record has to outlive that
+  const keepUntil = new Date(
+    Math.max(
+      new Date(v.verified.receipt.expiresAt).getTime() + (options.clockSkewSeconds ?? 10) * 1000,
+      Date.now() + (options.idempotencyTtlSeconds ?? 0) * 1000
+    )
+  ).toISOString();
+
+  let claim;
+  try {
+    claim = await options.idempotencyStore.claim(keys, keepUntil);
+  } catch {
+    return deny("idempotency_store_unavailable", { receiptId });
+  }
+  if (claim.state === "completed") return { ok: false, replay: claim.result };
+  if (claim.state === "pending") return deny("idempotency_in_progress", { receiptId });
+
+  return {
+    ok: true,
+    context: { receipt: v.verified, intent: body.intent, execute: body.execute },
+    idempotencyKeys: keys,
+  };
+}
+
+/**
+ * Records the handler's response for the claimed keys. 5xx (and no
+ * response at all) releases the claim instead. Store errors are
+ * swallowed: the record then stays pending until it expires, which
+ * blocks re-execution rather than allowing a duplicate.
+ */
+export async function settleSolaceRequest(
+  store: IdempotencyStore,
+  keys: string[],
+  response: { status: number; body: unknown; bodyText: string; contentType?: string; attestation?: string } | null
+): Promise<void> {
+  try {
+    if (!response || response.status >= 500) await store.fail(keys);
+    else await store.complete(keys, { ...response, completedAt: new Date().toISOString() });
+  } catch {
+    // see above
+  }
+}
+
+/**
+ * Express middleware. Mount after express.json(); on success the
+ * verified receipt is on req.solaceReceipt (see SolaceReceiptRequest).
+ *
+ * The handler may answer any way (res.json, send, sendStatus, write,
+ * end): the body is buffered until end, stored and attested exactly as
+ * sent. Responses are therefore not streamed, and a handler that
+ * flushes headers early gets no attestation header.
+ */
+export function requireSolaceReceipt(options: SolaceReceiptOptions): RequestHandler {
+  checkOptions(options);
+
+  return (req: ExpressRequest, res: ExpressResponse, next: NextFunction) => {
+    checkSolaceRequest(options, { receiptHeader: req.header("x-solace-receipt"), body: req.body }).then(
+      (out) => {
+        if ("replay" in out) {
+          const replay = replayResponse(out.replay);
+          return void res.status(replay.status).set(replay.headers).send(Buffer.from(replay.text, "utf8"));
+        }
+        if (!out.ok) return void res.status(out.status).json(out.body);
+
+        // Capture below res.json / send: every response ends in write / end
+        const chunks: Buffer[] = [];
+        let sent = "";
+        let attestation: string | undefined;
+
+        res.write = ((chunk: unknown, encoding?: unknown, cb?: unknown) => {
+          const done = typeof encoding === "function" ? encoding : cb;
+          chunks.push(toBuffer(chunk, encoding));
+          if (typeof done === "function") process.nextTick(done as () => void);
+          return true;
+        }) as ExpressResponse["write"];
+
+        const end = res.end.bind(res) as (chunk: Buffer, cb?: () => void) => ExpressResponse;
+        res.end = ((chunk?: unknown, encoding?: unknown, cb?: unknown) => {
+          const done = [chunk, encoding, cb].find((a) => typeof a === "function") as (() => void) | undefined;
+          if (chunk !== undefined && chunk !== null && typeof chunk !== "function") {
+            chunks.push(toBuffer(chunk, encoding));
+          }
+
+          const body = Buffer.concat(chunks);
+          sent = body.toString("utf8");
+          attestation = attestationHeader(options, out.context.receipt, res.statusCode, sent);
+          if (attestation && !res.headersSent) res.setHeader(ATTESTATION_HEADER, attestation);
+          return end(body, done);
+        }) as ExpressResponse["end"];
+
+        res.once("close", () => {
+          void settleSolaceRequest(
+            options.idempotencyStore,
+            out.idempotencyKeys,
+            res.writableFinished
+              ? {
+                  status: res.statusCode,
+                  body: storedBody(sent),
+                  bodyText: sent,
+                  contentType: contentType(res.getHeader("content-type")),
+                  attestation,
+                }
+              : null
+          );
+        });
+
+        (req as SolaceReceiptRequest).solaceReceipt = out.context.receipt;
+        next();
+      },
+      next
+    );
+  };
+}
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+function denyResponse(reason: string): Response {
+  return jsonResponse(executorDenyStatus(reason), { decision: "DENY", reason });
+}
+
+/**
+ * Fetch-API wrapper: (req) => Response. The body is read once here and
+ * passed to the handler as context.intent / context.execute.
+ */
+export function withSolaceReceipt(
+  options: SolaceReceiptOptions,
+  handler: (req: Request, context: SolaceReceiptContext) => Response | Promise<Response>
+): (req: Request) => Promise<Response> {
+  checkOptions(options);
+
+  return async (req) => {
+    if (req.method !== "POST") return denyResponse("method_not_allowed");
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return denyResponse("invalid_json");
+    }
+
+    const out = await checkSolaceRequest(options, { receiptHeader: req.headers.get("x-solace-receipt"), body });
+    if ("replay" in out) {
+      const replay = replayResponse(out.replay);
+      return new Response(replay.text, { status: replay.status, headers: replay.headers });
+    }
+    if (!out.ok) return jsonResponse(out.status, out.body);
+
+    let res: Response;
+    try {
+      res = await handler(req, out.context);
+    } catch (e) {
+      await settleSolaceRequest(options.idempotencyStore, out.idempotencyKeys, null);
+      throw e;
+    }
+
+    const text = await res.clone().text();
+    const attestation = attestationHeader(options, out.context.receipt, res.status, text);
+    await settleSolaceRequest(options.idempotencyStore, out.idempotencyKeys, {
+      status: res.status,
+      body: storedBody(text),
+      bodyText: text,
+      contentType: res.headers.get("content-type") ?? undefined,
+      attestation,
+    });
+    if (!attestation) return res;
+
+    // Handler responses may have immutable headers: rebuild with the attestation
+    const headers = new Headers(res.headers);
+    headers.set(ATTESTATION_HEADER, attestation);
+    return new Response(text, { status: res.status, statusText: res.statusText, headers });
+  };
+}
@@ -5,54 +5,270 @@
 //
 // Expected request:
 //   headers["x-solace-receipt"] = base64(JSON receipt)
+//                                 or compact JWS (typ solace-receipt+jws)
 //   body = { intent, execute }
 //
 // Executor must:
-//   - decode + verify receipt signature
+//   - decode + verify receipt signature (pinned key, or key set by kid)
 //   - enforce receipt window (short TTL)
 //   - recompute executeHash and compare receipt.executeHash
+//   - recompute intentHash from body.intent and check actorId / intent
+//     (pass intent; requireIntent when the executor reads body.intent)
 //   - enforce intended service binding (receipt.service)
+//   - v2: enforce audience (this executor) and operation bindings
 //   - enforce idempotency (receiptId or executeHash) on their side
+//   - optionally re-verify the embedded Core decision signature (corePublicKeys)
+//   - optionally reject revoked receipts (revocationChecker)
+//   - optionally accept several adapters (trustRegistry: adapterId selects
+//     the keys and must be allowed for this service)
 
-import { computeExecuteHash } from "./canonical.js";
+import { computeExecuteHash, computeIntentHash, tryPayloadHash } from "./canonical.js";
 import { verifyReceipt } from "./receipt.js";
-import type { Receipt } from "./types.js";
+import { decodeReceiptJws, isCompactJws } from "./receiptJws.js";
+import { verifyReceiptCoreSignature } from "./coreSignature.js";
+import type {
+  ExecuteSchemaValidator,
+  ExecutorVerificationResult,
+  Receipt,
+  ReceiptVerificationKey,
+  RevocationChecker,
+  TrustRegistry,
+} from "./types.js";
+
+/**
+ * Auto-detects the header format: compact JWS (three base64url
+ * segments) or base64 JSON. For JWS the received signing input is
+ * kept so verification runs over the exact bytes that were signed.
+ */
+export function decodeReceiptHeaderDetailed(headerValue: string | undefined): {
+  ok: boolean;
+  reason?: string;
+  format?: "json" | "jws";
+  receipt?: Receipt;
+  signingInput?: string;
+} {
+  if (!headerValue) return { ok: false, reason: "missing_or_invalid_receipt_header" };
+
+  if (isCompactJws(headerValue)) {
+    const d = decodeReceiptJws(headerValue);
+    if (!d.ok) return { ok: false, reason: d.reason };
+    return { ok: true, format: "jws", receipt: d.receipt, signingInput: d.signingInput };
+  }
 
-export function decodeReceiptHeader(headerValue: string | undefined): Receipt | null {
-  if (!headerValue) return null;
   try {
     const json = Buffer.from(headerValue, "base64").toString("utf8");
-    return JSON.parse(json);
+    const receipt = JSON.parse(json);
+    if (!receipt || typeof receipt !== "object") {
+      return { ok: false, reason: "missing_or_invalid_receipt_header" };
+    }
+    return { ok: true, format: "json", receipt };
   } catch {
-    return null;
+    return { ok: false, reason: "missing_or_invalid_receipt_header" };
+  }
+}
+
+export function decodeReceiptHeader(headerValue: string | undefined): Receipt | null {
+  return decodeReceiptHeaderDetailed(headerValue).receipt ?? null;
+}
+
+/**
+ * v2 audience / operation / tenant bindings. Runs after the signature
+ * verifies, so the fields compared here are the ones the adapter signed.
+ * v1 receipts carry none of them and pass through (migration window is
+ * enforced by verifyReceipt).
+ */
+function checkReceiptBindings(
+  receipt: Receipt,
+  params: {
+    execute: unknown;
+    expectedAudience?: string | string[];
+    expectedOperation?: string;
+    expectedOrganizationId?: string;
+  }
+): { ok: boolean; reason?: string } {
+  if (receipt.v !== 2) return { ok: true };
+
+  const audiences =
+    params.expectedAudience === undefined
+      ? []
+      : Array.isArray(params.expectedAudience)
+        ? params.expectedAudience
+        : [params.expectedAudience];
+  if (!audiences.length) return { ok: false, reason: "missing_expected_audience" };
+  if (!audiences.includes(receipt.audience!)) return { ok: false, reason: "receipt_audience_mismatch" };
+
+  // Same split as the adapter's service:operation routing
+  const actionOperation = String((params.execute as any)?.action || "").trim().split(":", 2)[1];
+
+  if (receipt.operation !== actionOperation) return { ok: false, reason: "receipt_operation_mismatch" };
+  if (params.expectedOperation !== undefined && receipt.operation !== params.expectedOperation) {
+    return { ok: false, reason: "receipt_operation_mismatch" };
+  }
+
+  if (
+    params.expectedOrganizationId !== undefined &&
+    receipt.organizationId !== params.expectedOrganizationId
+  ) {
+    return { ok: false, reason: "receipt_organization_mismatch" };
+  }
+
+  return { ok: true };
+}
+
+/**
+ * The executeHash only covers execute; body.intent travels unsigned
+ * next to it. Recomputing its hash stops a swapped intent (another
+ * actor) riding on a valid receipt.
+ */
+function checkIntentBinding(
+  receipt: Receipt,
+  params: { intent?: unknown; requireIntent?: boolean }
+): { ok: boolean; reason?: string; verified: boolean } {
+  if (params.intent === undefined || params.intent === null) {
+    return params.requireIntent
+      ? { ok: false, reason: "missing_intent", verified: false }
+      : { ok: true, verified: false };
+  }
+
+  const intentHash = tryPayloadHash(computeIntentHash, params.intent);
+  if (intentHash === null) return { ok: false, reason: "invalid_intent_payload", verified: false };
+  if (intentHash !== receipt.intentHash) {
+    return { ok: false, reason: "intent_hash_mismatch", verified: false };
   }
+
+  const intent = params.intent as any;
+  if (String(intent?.actor?.id ?? "") !== receipt.actorId) {
+    return { ok: false, reason: "receipt_actor_mismatch", verified: false };
+  }
+  if (String(intent?.intent ?? "") !== receipt.intent) {
+    return { ok: false, reason: "receipt_intent_mismatch", verified: false };
+  }
+
+  return { ok: true, verified: true };
 }
 
 export function verifyExecutorRequest(params: {
   receiptHeader?: string;
-  receiptPublicKeyPem: string;
+  // Pinned adapter key, or the published key set (selected by receipt.kid)
+  receiptPublicKeyPem?: string;
+  receiptKeys?: ReceiptVerificationKey[];
   expectedService: string;
   execute: unknown;
+  // body.intent; when given, must hash to receipt.intentHash and match actorId / intent
+  intent?: unknown;
+  // Reject requests without body.intent instead of skipping the intent binding
+  requireIntent?: boolean;
   now?: Date;
   clockSkewSeconds?: number;
-}): { ok: boolean; reason?: string; receipt?: Receipt; executeHash?: string } {
-  const { receiptHeader, receiptPublicKeyPem, expectedService, execute } = params;
 
-  const receipt = decodeReceiptHeader(receiptHeader);
-  if (!receipt) return { ok: false, reason: "missing_or_invalid_receipt_header" };
+  // v2 bindings: this executor's id(s) / URL(s); required for v2 receipts
+  expectedAudience?: string | string[];
+  // Defaults to the operation part of execute.action
+  expectedOperation?: string;
+  // When set, receipt.organizationId must match
+  expectedOrganizationId?: string;
+
+  // v1 migration window (see verifyReceipt)
+  acceptV1?: boolean;
+  acceptV1Until?: string | Date;
+
+  // Core decision keys (keyId -> PEM); when set, the Core signature must verify
+  corePublicKeys?: Record<string, string>;
+
+  // Same registry the adapter uses; when set, execute must match its action schema
+  executeSchemas?: ExecuteSchemaValidator;
+
+  // Consulted after the signature verifies (e.g. RevocationFeedPoller.checker())
+  revocationChecker?: RevocationChecker;
+
+  // Multi-adapter executors: receipt.adapterId must be registered and allowed
+  // for expectedService; its keys replace receiptPublicKeyPem / receiptKeys
+  trustRegistry?: TrustRegistry;
+}): ExecutorVerificationResult {
+  const { receiptHeader, expectedService, execute } = params;
+
+  const decoded = decodeReceiptHeaderDetailed(receiptHeader);
+  if (!decoded.ok || !decoded.receipt) {
+    return { ok: false, reason: decoded.reason || "missing_or_invalid_receipt_header" };
+  }
+  const receipt = decoded.receipt;
 
   if (receipt.service !== expectedService) return { ok: false, reason: "receipt_service_mismatch" };
 
+  let receiptPublicKeyPem = params.receiptPublicKeyPem;
+  let receiptKeys = params.receiptKeys;
+  if (params.trustRegistry) {
+    const t = params.trustRegistry.resolve({
+      adapterId: receipt.adapterId,
+      service: expectedService,
+      issuedAt: receipt.issuedAt,
+    });
+    if (!t.ok || !t.adapter) return { ok: false, reason: t.reason || "untrusted_adapter" };
+    receiptPublicKeyPem = undefined;
+    receiptKeys = t.adapter.keys;
+  }
+
   const v = verifyReceipt({
     receipt,
     receiptPublicKeyPem,
+    receiptKeys,
+    signingInput: decoded.signingInput,
     now: params.now,
     clockSkewSeconds: params.clockSkewSeconds ?? 10,
+    acceptV1: params.acceptV1,
+    acceptV1Until: params.acceptV1Until,
   });
   if (!v.ok) return { ok: false, reason: v.reason || "invalid_receipt" };
 
-  const executeHash = computeExecuteHash(execute);
+  const b = checkReceiptBindings(receipt, params);
+  if (!b.ok) return b;
+
+  if (params.corePublicKeys) {
+    const c = verifyReceiptCoreSignature({ receipt, corePublicKeys: params.corePublicKeys });
+    if (!c.ok) return { ok: false, reason: c.reason || "invalid_core_signature" };
+  }
+
+  if (params.revocationChecker) {
+    const r = params.revocationChecker(receipt);
+    if (r.revoked) return { ok: false, reason: r.reason || "receipt_revoked", receipt };
+  }
+
+  const executeHash = tryPayloadHash(computeExecuteHash, execute);
+  if (executeHash === null) return { ok: false, reason: "invalid_execute_payload" };
   if (executeHash !== receipt.executeHash) return { ok: false, reason: "execute_hash_mismatch" };
 
-  return { ok: true, receipt, executeHash };
+  const i = checkIntentBinding(receipt, params);
+  if (!i.ok) return { ok: false, reason: i.reason };
+
+  if (params.executeSchemas) {
+    const action = String((execute as any)?.action || "");
+    const s = params.executeSchemas.validate(action, execute);
+    if (!s.ok) {
+      return { ok: false, reason: s.reason || "execute_schema_invalid", validationErrors: s.errors };
+    }
+  }
+
+  return {
+    ok: true,
+    receipt,
+    executeHash,
+    intentHash: receipt.intentHash,
+    verified: {
+      receipt,
+      receiptId: receipt.receiptId,
+      adapterId: receipt.adapterId,
+      service: receipt.service,
+      operation: receipt.operation ?? null,
+      organizationId: receipt.organizationId ?? null,
+      audience: receipt.audience ?? null,
+      requestId: receipt.requestId ?? null,
+      actorId: receipt.actorId,
+      intent: receipt.intent,
+      executeHash,
+      intentHash: receipt.intentHash,
+      intentVerified: i.verified,
+      format: decoded.format ?? "json",
+      kid: receipt.kid,
+    },
+  };
 }
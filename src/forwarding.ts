@@ -1,10 +1,67 @@
 // src/forwarding.ts
 
-import type { AdapterForwardingConfig, GateRequestEnvelope, Receipt } from "./types.js";
+import type {
+  AdapterForwardingConfig,
+  ForwardAttempt,
+  ForwardMethod,
+  ForwardTarget,
+  GateRequestEnvelope,
+  Receipt,
+} from "./types.js";
 import { ForwardingError } from "./errors.js";
+import { encodeReceiptJws } from "./receiptJws.js";
+import { ATTESTATION_HEADER, executionResultHash } from "./attestations.js";
 
-async function safeJson(res: Response): Promise<any> {
-  const text = await res.text();
+const DEFAULT_FORWARD_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RESPONSE_BYTES = 1024 * 1024;
+const DEFAULT_RETRY_BACKOFF_MS = 250;
+// Clock skew between replicas and store write latency
+const FORWARD_LEASE_SLACK_MS = 5000;
+
+// ------------------------------------------------------------
+// Timeout helper (covers request AND response body)
+// ------------------------------------------------------------
+function withTimeout(timeoutMs: number): { signal: AbortSignal; cancel: () => void } {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), timeoutMs);
+  return {
+    signal: controller.signal,
+    cancel: () => clearTimeout(t),
+  };
+}
+
+// ------------------------------------------------------------
+// Size-capped body read + safe JSON parse
+// ------------------------------------------------------------
+async function readTextCapped(res: Response, maxBytes: number): Promise<string> {
+  const declared = Number(res.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    await res.body?.cancel().catch(() => undefined);
+    throw new ForwardingError("executor_response_too_large", { maxBytes, declared });
+  }
+
+  if (!res.body) return "";
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw new ForwardingError("executor_response_too_large", { maxBytes });
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function safeJson(text: string): any {
   if (!text) return null;
   try {
     return JSON.parse(text);
@@ -13,42 +70,200 @@ async function safeJson(res: Response): Promise<any> {
   }
 }
 
+function classifyFetchError(err: unknown, signal: AbortSignal): ForwardingError {
+  if (err instanceof ForwardingError) return err;
+  if (signal.aborted) return new ForwardingError("executor_timeout");
+  return new ForwardingError("executor_unreachable", {
+    error: err instanceof Error ? err.message : String(err),
+  });
+}
+
 export function encodeReceiptHeader(receipt: Receipt): string {
+  // JWS-signed receipts travel as compact JWS (typ solace-receipt+jws)
+  if (receipt.signatureFormat === "jws") return encodeReceiptJws(receipt);
+
   // Keep it simple: base64(JSON)
   const json = JSON.stringify(receipt);
   return Buffer.from(json, "utf8").toString("base64");
 }
 
+function joinUrl(base: string, path: string): string {
+  const b = base.replace(/\/+$/, "");
+  const p = path.startsWith("/") ? path : `/${path}`;
+  return `${b}${p}`;
+}
+
+/**
+ * Resolves url/method/headers for service:operation.
+ * Returns null if the target declares operations and this one is not among them.
+ */
+export function resolveForwardRoute(
+  target: ForwardTarget,
+  operation: string
+): { url: string; method: ForwardMethod; headers: Record<string, string> } | null {
+  if (!target.operations) {
+    return { url: target.url, method: "POST", headers: {} };
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(target.operations, operation)) return null;
+  const op = target.operations[operation];
+
+  let url = target.url;
+  if (op.url) {
+    url = op.url;
+  } else if (op.path) {
+    const path = op.path
+      .replace(/\{service\}/g, encodeURIComponent(target.service))
+      .replace(/\{operation\}/g, encodeURIComponent(operation));
+    url = joinUrl(target.url, path);
+  }
+
+  return { url, method: op.method ?? "POST", headers: { ...(op.headers ?? {}) } };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Gateway-style statuses: the request may not have reached the executor
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+/**
+ * A 502/503/504 is not the executor's answer; a forward that ends on
+ * one has an unknown outcome (retryable), not a delivered one.
+ */
+export function isGatewayFailure(status: number): boolean {
+  return RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * How long a "pending" forward record may go without an update before
+ * a retry may take it over: one attempt (request + body) plus the
+ * longest backoff. forwardPermitted touches the record per attempt.
+ */
+export function forwardLeaseMs(target: ForwardTarget): number {
+  const maxAttempts = 1 + Math.max(0, target.retries ?? 0);
+  return (
+    (target.timeoutMs ?? DEFAULT_FORWARD_TIMEOUT_MS) +
+    (target.retryBackoffMs ?? DEFAULT_RETRY_BACKOFF_MS) * maxAttempts +
+    FORWARD_LEASE_SLACK_MS
+  );
+}
+
+export interface ForwardedResponse {
+  status: number;
+  body: any;
+  // executionResultHash of the body as received (attestation check)
+  resultHash: string | null;
+  // x-solace-attestation response header, if any
+  attestation: string | null;
+}
+
+/**
+ * Forwards once per attempt, retrying (target.retries) on timeouts,
+ * unreachable executors and 502/503/504. Every attempt reuses the SAME
+ * receipt and sends idempotency-key = receiptId, so an executor that
+ * already acted can dedupe. Retries stop once the receipt expires.
+ */
 export async function forwardToExecutor(params: {
   cfg: AdapterForwardingConfig;
   service: string;
-  envelope: GateRequestEnvelope;
+  operation: string;
+  envelope: Pick<GateRequestEnvelope, "intent" | "execute">;
   receipt: Receipt;
-}): Promise<{ status: number; body: any }> {
-  const { cfg, service, envelope, receipt } = params;
+  onAttempt?: (attempt: ForwardAttempt) => void | Promise<void>;
+}): Promise<ForwardedResponse & { attempts: number }> {
+  const { cfg, service, operation, envelope, receipt } = params;
 
   const target = cfg.targets[service];
   if (!target) throw new ForwardingError("unknown_forward_target", { service });
 
+  const route = resolveForwardRoute(target, operation);
+  if (!route) throw new ForwardingError("unknown_operation", { service, operation });
+
+  const maxAttempts = 1 + Math.max(0, target.retries ?? 0);
+  const backoffMs = target.retryBackoffMs ?? DEFAULT_RETRY_BACKOFF_MS;
+  const receiptExpiresAt = new Date(receipt.expiresAt).getTime();
+
+  for (let attempt = 1; ; attempt++) {
+    const at = new Date().toISOString();
+
+    let res: ForwardedResponse | null = null;
+    let err: ForwardingError | null = null;
+    try {
+      res = await forwardOnce(target, route, envelope, receipt);
+    } catch (e) {
+      // forwardOnce only throws classified ForwardingErrors
+      err = e as ForwardingError;
+    }
+
+    const last = attempt >= maxAttempts || !canRetry(receiptExpiresAt, backoffMs, attempt);
+
+    if (res) {
+      await params.onAttempt?.({ attempt, at, status: res.status });
+      if (last || !isGatewayFailure(res.status)) {
+        return { ...res, attempts: attempt };
+      }
+    } else {
+      await params.onAttempt?.({ attempt, at, error: err!.reason });
+
+      // A too-large response means the executor answered: never re-send
+      const retryable = err!.reason === "executor_timeout" || err!.reason === "executor_unreachable";
+      if (last || !retryable) throw err!;
+    }
+
+    await sleep(backoffMs * attempt);
+  }
+}
+
+function canRetry(receiptExpiresAt: number, backoffMs: number, attempt: number): boolean {
+  // The executor would reject an expired receipt anyway
+  return Date.now() + backoffMs * attempt < receiptExpiresAt;
+}
+
+async function forwardOnce(
+  target: ForwardTarget,
+  route: { url: string; method: ForwardMethod; headers: Record<string, string> },
+  envelope: Pick<GateRequestEnvelope, "intent" | "execute">,
+  receipt: Receipt
+): Promise<ForwardedResponse> {
   // IMPORTANT: in forwarding mode, the executor is allowed to accept ONLY:
   // - receipt header
   // - execute payload (and optionally the intent for logging), but NEVER the acceptance.
   // acceptance stays between (client -> adapter -> core). Executors should not trust it.
 
-  const res = await fetch(target.url, {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      "x-solace-receipt": encodeReceiptHeader(receipt),
-      ...(target.bearerToken ? { authorization: `Bearer ${target.bearerToken}` } : {}),
-    },
-    body: JSON.stringify({
-      intent: envelope.intent,
-      execute: envelope.execute,
-      // DO NOT forward acceptance
-    }),
-  });
+  const timeoutMs = target.timeoutMs ?? DEFAULT_FORWARD_TIMEOUT_MS;
+  const maxBytes = target.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES;
+  const { signal, cancel } = withTimeout(timeoutMs);
 
-  const body = await safeJson(res);
-  return { status: res.status, body };
+  try {
+    const res = await fetch(route.url, {
+      method: route.method,
+      headers: {
+        ...route.headers,
+        "content-type": "application/json",
+        "x-solace-receipt": encodeReceiptHeader(receipt),
+        "idempotency-key": receipt.receiptId,
+        ...(target.bearerToken ? { authorization: `Bearer ${target.bearerToken}` } : {}),
+      },
+      body: JSON.stringify({
+        intent: envelope.intent,
+        execute: envelope.execute,
+        // DO NOT forward acceptance
+      }),
+      signal,
+    });
+
+    const text = await readTextCapped(res, maxBytes);
+    return {
+      status: res.status,
+      body: safeJson(text),
+      resultHash: executionResultHash(text),
+      attestation: res.headers.get(ATTESTATION_HEADER),
+    };
+  } catch (e) {
+    throw classifyFetchError(e, signal);
+  } finally {
+    cancel();
+  }
 }
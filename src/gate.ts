@@ -1,29 +1,90 @@
 // src/gate.ts
 
+import crypto from "crypto";
 import type {
   AdapterForwardingConfig,
   AdapterGateResult,
+  DeadLetterEntry,
+  DecisionLogEntry,
+  ForwardAttempt,
+  ForwardRecord,
+  GateDecision,
+  GateOptions,
+  GatePlan,
   GateRequestEnvelope,
+  PendingApproval,
+  Receipt,
 } from "./types.js";
-import { computeExecuteHash, computeIntentHash } from "./canonical.js";
+import {
+  canonicalize,
+  computeExecuteHash,
+  computeIntentHash,
+  tryPayloadHash,
+  sha256Hex,
+} from "./canonical.js";
 import { SolaceCoreClient } from "./coreClient.js";
-import { signReceipt } from "./receipt.js";
-import { forwardToExecutor } from "./forwarding.js";
-import { ConfigError } from "./errors.js";
+import { buildSimulatedReceipt, signReceiptWith } from "./receipt.js";
+import type { ReceiptFields } from "./receipt.js";
+import { receiptSignerFor } from "./receiptSigner.js";
+import { forwardToExecutor, isGatewayFailure, resolveForwardRoute } from "./forwarding.js";
+import { attestForward } from "./attestations.js";
+import { precheckAcceptance } from "./acceptance.js";
+import { recordMintedReceipt, recordReceiptForward } from "./receipts.js";
+import { ConfigError, asMessage, isExecutionUnknown, type ForwardingReason } from "./errors.js";
 
 function requireCfg(cfg: AdapterForwardingConfig) {
   if (!cfg) throw new ConfigError("missing_adapter_config");
   if (!cfg.adapterId) throw new ConfigError("missing_adapterId");
-  if (!cfg.receiptPrivateKeyPem) throw new ConfigError("missing_receiptPrivateKeyPem");
+  if (!cfg.receiptPrivateKeyPem && !cfg.receiptSigner) throw new ConfigError("missing_receiptPrivateKeyPem");
   if (!cfg.receiptPublicKeyPem) throw new ConfigError("missing_receiptPublicKeyPem");
   if (!cfg.core?.coreBaseUrl) throw new ConfigError("missing_core_base_url");
   if (!cfg.targets) throw new ConfigError("missing_targets");
 }
 
-export async function gateAndForward(
+async function openPendingApproval(
   cfg: AdapterForwardingConfig,
-  envelope: GateRequestEnvelope
-): Promise<AdapterGateResult> {
+  opts: GateOptions,
+  params: {
+    envelope: GateRequestEnvelope;
+    service: string;
+    action: string;
+    executeHash: string;
+    intentHash: string;
+    coreReason?: string;
+  }
+): Promise<PendingApproval> {
+  const now = new Date();
+  const ttlSeconds = cfg.approvalTtlSeconds ?? 3600;
+
+  const approval: PendingApproval = {
+    approvalId: crypto.randomUUID(),
+    status: "pending",
+    organizationId: opts.organizationId ?? null,
+    requestId: opts.requestId ?? null,
+    service: params.service,
+    action: params.action,
+    envelope: params.envelope,
+    executeHash: params.executeHash,
+    intentHash: params.intentHash,
+    coreReason: params.coreReason,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+  };
+
+  await opts.approvals!.put(approval.approvalId, approval);
+  return approval;
+}
+
+/**
+ * Everything up to (and including) the Core decision.
+ * Returns either a final non-forwardable result or a PERMIT plan
+ * ready for receipt minting. Never forwards.
+ */
+export async function decideGate(
+  cfg: AdapterForwardingConfig,
+  envelope: GateRequestEnvelope,
+  opts: GateOptions = {}
+): Promise<GateDecision> {
   requireCfg(cfg);
 
   // Minimal envelope validation (adapter is fail-closed for execution)
@@ -33,7 +94,7 @@ export async function gateAndForward(
     !envelope.execute ||
     !envelope.acceptance
   ) {
-    return { decision: "DENY", reason: "invalid_or_missing_gate_request" };
+    return { permitted: false, result: { decision: "DENY", reason: "invalid_or_missing_gate_request" } };
   }
 
   const actorId = String(envelope.intent.actor.id);
@@ -53,6 +114,7 @@ export async function gateAndForward(
    * Adapter enforces:
    * - valid format
    * - declared service exists in cfg.targets
+   * - operation is declared, if the service declares operations
    * - fail-closed otherwise
    * ------------------------------------------------------------
    */
@@ -60,17 +122,75 @@ export async function gateAndForward(
   const rawAction = String((envelope.execute as any).action || "").trim();
 
   if (!rawAction.includes(":")) {
-    return { decision: "DENY", reason: "invalid_action_format" };
+    return { permitted: false, result: { decision: "DENY", reason: "invalid_action_format" } };
   }
 
   const [service, operation] = rawAction.split(":", 2);
 
   if (!service || !operation) {
-    return { decision: "DENY", reason: "invalid_action_format" };
+    return { permitted: false, result: { decision: "DENY", reason: "invalid_action_format" } };
   }
 
   if (!cfg.targets[service]) {
-    return { decision: "DENY", reason: "unknown_forward_target" };
+    return { permitted: false, result: { decision: "DENY", reason: "unknown_forward_target" } };
+  }
+
+  if (!resolveForwardRoute(cfg.targets[service], operation)) {
+    return { permitted: false, result: { decision: "DENY", reason: "unknown_operation" } };
+  }
+
+  /**
+   * ------------------------------------------------------------
+   * Execute payload schema (per service:operation)
+   * ------------------------------------------------------------
+   */
+  if (cfg.executeSchemas?.has(rawAction)) {
+    const v = cfg.executeSchemas.validate(rawAction, envelope.execute);
+    if (!v.ok) {
+      return {
+        permitted: false,
+        result: {
+          decision: "DENY",
+          reason: v.reason || "execute_schema_invalid",
+          validationErrors: v.errors,
+        },
+      };
+    }
+  } else if (cfg.requireExecuteSchemas) {
+    return { permitted: false, result: { decision: "DENY", reason: "execute_schema_missing" } };
+  }
+
+  const localExecuteHash = tryPayloadHash(computeExecuteHash, envelope.execute);
+  if (localExecuteHash === null) {
+    return { permitted: false, result: { decision: "DENY", reason: "invalid_execute_payload" } };
+  }
+  const localIntentHash = tryPayloadHash(computeIntentHash, envelope.intent);
+  if (localIntentHash === null) {
+    return { permitted: false, result: { decision: "DENY", reason: "invalid_intent_payload" } };
+  }
+
+  /**
+   * ------------------------------------------------------------
+   * Acceptance pre-checks (local, before Core)
+   * ------------------------------------------------------------
+   * Rejects expired / mismatched acceptances without a Core round
+   * trip. Core still performs the authoritative verification.
+   * ------------------------------------------------------------
+   */
+  const pre = precheckAcceptance(envelope, {
+    clockSkewSeconds: cfg.clockSkewSeconds,
+    executeHash: localExecuteHash,
+  });
+  if (!pre.ok) {
+    return {
+      permitted: false,
+      result: {
+        decision: "DENY",
+        reason: pre.reason,
+        executeHash: localExecuteHash,
+        intentHash: localIntentHash,
+      },
+    };
   }
 
   /**
@@ -81,11 +201,46 @@ export async function gateAndForward(
   const core = new SolaceCoreClient(cfg.core);
   const coreRes = await core.execute(envelope);
 
+  /**
+   * ------------------------------------------------------------
+   * ESCALATE → pending approval (still no forwarding)
+   * ------------------------------------------------------------
+   * The envelope is parked until an approver supplies a fresh
+   * acceptance. Approval re-runs the full Core decision; nothing
+   * is forwarded on the strength of this ESCALATE.
+   * ------------------------------------------------------------
+   */
+  if (coreRes.decision === "ESCALATE" && opts.approvals && !opts.dryRun) {
+    const approval = await openPendingApproval(cfg, opts, {
+      envelope,
+      service,
+      action: rawAction,
+      executeHash: localExecuteHash,
+      intentHash: localIntentHash,
+      coreReason: coreRes.reason,
+    });
+
+    return {
+      permitted: false,
+      result: {
+        decision: "ESCALATE",
+        reason: coreRes.reason || "core_escalated",
+        approvalId: approval.approvalId,
+        approvalExpiresAt: approval.expiresAt,
+        executeHash: approval.executeHash,
+        intentHash: approval.intentHash,
+      },
+    };
+  }
+
   if (coreRes.decision !== "PERMIT") {
     // Adapter must fail closed: no forwarding.
     return {
-      decision: coreRes.decision,
-      reason: coreRes.reason || "core_denied",
+      permitted: false,
+      result: {
+        decision: coreRes.decision,
+        reason: coreRes.reason || "core_denied",
+      },
     };
   }
 
@@ -93,57 +248,389 @@ export async function gateAndForward(
    * ------------------------------------------------------------
    * Hash binding
    * ------------------------------------------------------------
+   * Strict mode (default): Core's hashes must equal the locally
+   * computed ones, otherwise the receipt would bind a payload the
+   * executor cannot reproduce (or one nobody intended).
+   * ------------------------------------------------------------
    */
-  const localExecuteHash = computeExecuteHash(envelope.execute);
-  const localIntentHash = computeIntentHash(envelope.intent);
+  if (cfg.strictCoreHashes ?? true) {
+    const executeMismatch =
+      coreRes.executeHash !== undefined && coreRes.executeHash !== localExecuteHash;
+    const intentMismatch =
+      coreRes.intentHash !== undefined && coreRes.intentHash !== localIntentHash;
+
+    if (executeMismatch || intentMismatch) {
+      return {
+        permitted: false,
+        result: {
+          decision: "DENY",
+          reason: "core_hash_mismatch",
+          executeHash: localExecuteHash,
+          intentHash: localIntentHash,
+          authorityKeyId: coreRes.authorityKeyId ?? null,
+        },
+      };
+    }
+  }
 
   const executeHash = coreRes.executeHash || localExecuteHash;
   const intentHash = coreRes.intentHash || localIntentHash;
 
-  /**
-   * ------------------------------------------------------------
-   * Mint short-lived cryptographic receipt
-   * ------------------------------------------------------------
-   */
-  const receiptTtlSeconds = cfg.receiptTtlSeconds ?? 30;
+  return {
+    permitted: true,
+    plan: {
+      service,
+      operation,
+      action: rawAction,
+      actorId,
+      intentName,
+      executeHash,
+      intentHash,
+      core: coreRes,
+    },
+  };
+}
+
+function receiptParams(
+  cfg: AdapterForwardingConfig,
+  plan: GatePlan,
+  opts: Pick<GateOptions, "organizationId" | "requestId">
+): ReceiptFields {
+  const target = cfg.targets[plan.service];
 
-  const receipt = signReceipt({
+  return {
+    receiptVersion: cfg.receiptVersion ?? 1,
     adapterId: cfg.adapterId,
-    service,
-    actorId,
-    intent: intentName,
-    executeHash,
-    intentHash,
-    authorityKeyId: coreRes.authorityKeyId ?? null,
-    coreIssuedAt: coreRes.issuedAt,
-    coreExpiresAt: coreRes.expiresAt,
-    coreTime: coreRes.time,
-    receiptPrivateKeyPem: cfg.receiptPrivateKeyPem,
-    receiptTtlSeconds,
+    service: plan.service,
+    operation: plan.operation,
+    organizationId: opts.organizationId ?? null,
+    audience: target.audience ?? resolveForwardRoute(target, plan.operation)?.url,
+    requestId: opts.requestId ?? null,
+    actorId: plan.actorId,
+    intent: plan.intentName,
+    executeHash: plan.executeHash,
+    intentHash: plan.intentHash,
+    authorityKeyId: plan.core.authorityKeyId ?? null,
+    coreIssuedAt: plan.core.issuedAt,
+    coreExpiresAt: plan.core.expiresAt,
+    coreTime: plan.core.time,
+    coreSignature: plan.core.signature,
+    coreKeyId: plan.core.keyId,
+    receiptTtlSeconds: cfg.receiptTtlSeconds ?? 30,
+  };
+}
+
+/**
+ * Mint short-lived cryptographic receipt for a PERMIT plan.
+ * Signed by cfg.receiptSigner, or in-process with the configured PEM keys.
+ */
+export async function mintGateReceipt(
+  cfg: AdapterForwardingConfig,
+  plan: GatePlan,
+  extra: Pick<GateOptions, "organizationId" | "requestId"> & { batchId?: string } = {}
+): Promise<Receipt> {
+  return signReceiptWith(receiptSignerFor(cfg), {
+    ...receiptParams(cfg, plan, extra),
+    batchId: extra.batchId,
+    signatureFormat: cfg.receiptFormat === "jws" ? "jws" : undefined,
   });
+}
+
+export async function gateAndForward(
+  cfg: AdapterForwardingConfig,
+  envelope: GateRequestEnvelope,
+  opts: GateOptions = {}
+): Promise<AdapterGateResult> {
+  let result: AdapterGateResult;
+  try {
+    result = await gateAndForwardUnlogged(cfg, envelope, opts);
+  } catch (e) {
+    await recordDecision(opts, envelope, { decision: "DENY", reason: asMessage(e) });
+    throw e;
+  }
+
+  await recordDecision(opts, envelope, result);
+  return result;
+}
+
+async function gateAndForwardUnlogged(
+  cfg: AdapterForwardingConfig,
+  envelope: GateRequestEnvelope,
+  opts: GateOptions
+): Promise<AdapterGateResult> {
+  const decided = await decideGate(cfg, envelope, opts);
+  if (!decided.permitted) return decided.result;
+
+  const { plan } = decided;
 
   /**
    * ------------------------------------------------------------
-   * Forward to executor (only after PERMIT)
+   * Dry run: return the receipt that WOULD be minted
+   * ------------------------------------------------------------
+   * Unsigned and flagged simulated: verifyReceipt always rejects it.
+   * Never forwards.
    * ------------------------------------------------------------
    */
-  const forwarded = await forwardToExecutor({
+  if (opts.dryRun) {
+    return {
+      decision: "PERMIT",
+      reason: "simulated_core_permit",
+      simulated: true,
+      simulatedReceipt: buildSimulatedReceipt({
+        ...receiptParams(cfg, plan, opts),
+        kid: (await receiptSignerFor(cfg).currentKey()).kid,
+      }),
+      executeHash: plan.executeHash,
+      intentHash: plan.intentHash,
+      authorityKeyId: plan.core.authorityKeyId ?? null,
+    };
+  }
+
+  const receipt = await mintGateReceipt(cfg, plan, opts);
+  await recordMintedReceipt(opts, plan, receipt);
+
+  const result = await forwardPermitted(
     cfg,
-    service,
-    envelope,
+    { service: plan.service, operation: plan.operation, envelope, receipt },
+    opts
+  );
+
+  await deadLetterIfFailed(cfg, opts, { plan, envelope, receipt, result });
+  return result;
+}
+
+/**
+ * ------------------------------------------------------------
+ * Append a gate outcome to the hash-chained decision log
+ * ------------------------------------------------------------
+ * Runs after the outcome is final (including after a forward), so a
+ * log write failure is reported but never turns an executed action
+ * into an error response the client might blindly retry.
+ * ------------------------------------------------------------
+ */
+export async function recordDecision(
+  opts: GateOptions,
+  envelope: GateRequestEnvelope | null | undefined,
+  result: AdapterGateResult,
+  extra: { batchId?: string } = {}
+): Promise<DecisionLogEntry | null> {
+  if (!opts.decisionLog) return null;
+
+  const rawAction = String((envelope?.execute as any)?.action ?? "").trim();
+  const sep = rawAction.indexOf(":");
+
+  try {
+    return await opts.decisionLog.append({
+      decision: result.decision,
+      reason: result.reason ?? null,
+      requestId: opts.requestId ?? null,
+      organizationId: opts.organizationId ?? null,
+      service: sep > 0 ? rawAction.slice(0, sep) : null,
+      operation: sep > 0 ? rawAction.slice(sep + 1) : null,
+      executeHash: result.executeHash ?? null,
+      intentHash: result.intentHash ?? null,
+      receiptId: result.receipt?.receiptId ?? null,
+      batchId: extra.batchId ?? null,
+      approvalId: result.approvalId ?? null,
+      forwardStatus: result.forwardStatus ?? null,
+      forwardOutcome: result.forwardOutcome ?? null,
+      execution: result.execution ?? null,
+      executionAttestation: result.executionAttestation ?? null,
+      dryRun: opts.dryRun === true,
+    });
+  } catch (e) {
+    console.error("[decision-log] append failed:", asMessage(e));
+    return null;
+  }
+}
+
+/**
+ * ------------------------------------------------------------
+ * Dead-letter a permitted action whose forward failed
+ * ------------------------------------------------------------
+ * Core has already ledgered the PERMIT; without this record the
+ * authorized action would vanish on the adapter side.
+ * ------------------------------------------------------------
+ */
+export async function deadLetterIfFailed(
+  cfg: AdapterForwardingConfig,
+  opts: GateOptions,
+  params: {
+    plan: GatePlan;
+    envelope: GateRequestEnvelope;
+    receipt: Receipt;
+    result: AdapterGateResult;
+  }
+): Promise<DeadLetterEntry | null> {
+  const { plan, envelope, receipt, result } = params;
+  if (!opts.deadLetters) return null;
+
+  const failed =
+    result.forwardOutcome === "unknown" ||
+    (result.forwardStatus !== undefined && result.forwardStatus >= 500);
+  if (!failed) return null;
+
+  const now = new Date();
+  const ttlSeconds = cfg.deadLetterTtlSeconds ?? 86400;
+  const route = resolveForwardRoute(cfg.targets[plan.service], plan.operation);
+
+  const entry: DeadLetterEntry = {
+    id: crypto.randomUUID(),
+    status: "open",
+    organizationId: opts.organizationId ?? null,
+    requestId: opts.requestId ?? null,
+    receiptId: receipt.receiptId,
     receipt,
-  });
+    envelopeHash: sha256Hex(canonicalize({ intent: envelope.intent, execute: envelope.execute })),
+    envelope,
+    service: plan.service,
+    operation: plan.operation,
+    target: route?.url ?? cfg.targets[plan.service]?.url ?? "",
+    error: result.forwardError ?? "executor_http_error",
+    forwardStatus: result.forwardStatus,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+    updatedAt: now.toISOString(),
+    redrives: [],
+  };
 
-  return {
-    decision: "PERMIT",
-    reason: "forwarded_after_core_permit",
+  await opts.deadLetters.put(entry.id, entry);
+  return entry;
+}
+
+/**
+ * ------------------------------------------------------------
+ * Forward to executor (only after PERMIT + minted receipt)
+ * ------------------------------------------------------------
+ * Network-level failures do not throw: Core has permitted and the
+ * executor may have acted, so the result says PERMIT with an
+ * unknown execution outcome rather than pretending it was denied.
+ *
+ * With opts.forwards, every attempt is recorded against the
+ * receiptId so a later retry can reuse the receipt or report the
+ * earlier outcome (see retryForward).
+ * ------------------------------------------------------------
+ */
+export async function forwardPermitted(
+  cfg: AdapterForwardingConfig,
+  params: {
+    service: string;
+    operation: string;
+    envelope: Pick<GateRequestEnvelope, "intent" | "execute">;
+    receipt: Receipt;
+  },
+  opts: GateOptions = {}
+): Promise<AdapterGateResult> {
+  const { service, operation, envelope, receipt } = params;
+
+  const bound = {
     receipt,
-    forwardStatus: forwarded.status,
-    forwardBody: forwarded.body,
-    executeHash,
-    intentHash,
-    authorityKeyId: coreRes.authorityKeyId ?? null,
+    executeHash: receipt.executeHash,
+    intentHash: receipt.intentHash,
+    authorityKeyId: receipt.authorityKeyId ?? null,
   };
+
+  const store = opts.forwards;
+  let record: ForwardRecord | null = null;
+
+  if (store) {
+    record = (await store.get(receipt.receiptId)) ?? {
+      receiptId: receipt.receiptId,
+      organizationId: opts.organizationId ?? null,
+      requestId: opts.requestId ?? null,
+      service,
+      operation,
+      receipt,
+      envelope: { intent: envelope.intent, execute: envelope.execute },
+      attempts: [],
+      outcome: "pending",
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    await store.put(record.receiptId, record);
+  }
+
+  const onAttempt = async (attempt: ForwardAttempt) => {
+    if (!store || !record) return;
+    record.attempts.push({ ...attempt, attempt: record.attempts.length + 1 });
+    record.updatedAt = new Date().toISOString();
+    await store.put(record.receiptId, record);
+  };
+
+  // The executor may have acted: record as retryable (same receipt), never as delivered
+  const executionUnknown = async (
+    forwardError: ForwardingReason,
+    response?: { status: number; body: unknown }
+  ): Promise<AdapterGateResult> => {
+    if (store && record) {
+      record.outcome = "unknown";
+      record.forwardStatus = response?.status;
+      record.forwardBody = response?.body;
+      record.forwardError = forwardError;
+      record.updatedAt = new Date().toISOString();
+      await store.put(record.receiptId, record);
+    }
+
+    const result: AdapterGateResult = {
+      decision: "PERMIT",
+      reason: "core_permit_execution_unknown",
+      forwardOutcome: "unknown",
+      forwardError,
+      ...(response ? { forwardStatus: response.status, forwardBody: response.body } : {}),
+      forwardAttempts: record?.attempts.length,
+      ...bound,
+    };
+    await recordReceiptForward(opts.receipts, receipt.receiptId, { result });
+    return result;
+  };
+
+  try {
+    const forwarded = await forwardToExecutor({
+      cfg,
+      service,
+      operation,
+      envelope,
+      receipt,
+      onAttempt,
+    });
+
+    // Retries exhausted on 502/503/504: a proxy answered, not the executor
+    if (isGatewayFailure(forwarded.status)) {
+      return await executionUnknown("executor_gateway_error", forwarded);
+    }
+
+    const attested = attestForward(cfg.targets[service], receipt, forwarded);
+
+    if (store && record) {
+      record.outcome = "delivered";
+      record.forwardStatus = forwarded.status;
+      record.forwardBody = forwarded.body;
+      record.forwardError = undefined;
+      Object.assign(record, attested);
+      record.updatedAt = new Date().toISOString();
+      await store.put(record.receiptId, record);
+    }
+
+    const result: AdapterGateResult = {
+      decision: "PERMIT",
+      reason: "forwarded_after_core_permit",
+      forwardStatus: forwarded.status,
+      forwardBody: forwarded.body,
+      forwardOutcome: "delivered",
+      forwardAttempts: record?.attempts.length ?? forwarded.attempts,
+      ...attested,
+      ...bound,
+    };
+    await recordReceiptForward(opts.receipts, receipt.receiptId, { result });
+    return result;
+  } catch (e) {
+    if (!isExecutionUnknown(e)) {
+      await recordReceiptForward(opts.receipts, receipt.receiptId, { failed: asMessage(e) });
+      throw e;
+    }
+
+    return executionUnknown(e.reason);
+  }
 }
 
 export async function authorizeOnly(
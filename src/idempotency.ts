@@ -0,0 +1,268 @@
+// src/idempotency.ts
+// Executor-side idempotency stores (one side effect per receipt).
+// - MemoryIdempotencyStore:   process-local, lost on restart (dev / tests)
+// - SqliteIdempotencyStore:   SQLite file (better-sqlite3 or node:sqlite handle)
+// - PostgresIdempotencyStore: Postgres (pg.Pool or compatible); shared by replicas
+//
+// Record states:
+//   pending   → claimed; the side effect is running (or crashed mid-way)
+//   completed → the first response is stored and returned to retries
+// fail() deletes a pending record so a retry can execute again.
+//
+// Records live until expiresAt. claim() treats expired records as
+// absent; cleanup() deletes them (scheduleIdempotencyCleanup runs it
+// periodically).
+
+import type { IdempotencyClaim, IdempotencyResult, IdempotencyStore } from "./types.js";
+import { ConfigError } from "./errors.js";
+
+function expiryMs(expiresAt: string): number {
+  const t = new Date(expiresAt).getTime();
+  if (Number.isNaN(t)) throw new ConfigError("invalid_idempotency_expiry", { expiresAt });
+  return t;
+}
+
+function existingClaim(key: string, state: string, result: IdempotencyResult | null): IdempotencyClaim {
+  return state === "completed" && result ? { state: "completed", key, result } : { state: "pending", key };
+}
+
+function tableName(table: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) throw new ConfigError("invalid_idempotency_table", { table });
+  return table;
+}
+
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, { state: string; result: IdempotencyResult | null; expiresAt: number }>();
+
+  async claim(keys: string[], expiresAt: string): Promise<IdempotencyClaim> {
+    const exp = expiryMs(expiresAt);
+    await this.cleanup();
+
+    for (const key of keys) {
+      const r = this.records.get(key);
+      if (r) return existingClaim(key, r.state, r.result);
+    }
+
+    for (const key of keys) this.records.set(key, { state: "pending", result: null, expiresAt: exp });
+    return { state: "claimed" };
+  }
+
+  async complete(keys: string[], result: IdempotencyResult): Promise<void> {
+    for (const key of keys) {
+      const r = this.records.get(key);
+      if (r) this.records.set(key, { ...r, state: "completed", result: JSON.parse(JSON.stringify(result)) });
+    }
+  }
+
+  async fail(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      if (this.records.get(key)?.state === "pending") this.records.delete(key);
+    }
+  }
+
+  async cleanup(now: Date = new Date()): Promise<number> {
+    let removed = 0;
+    for (const [key, r] of this.records) {
+      if (r.expiresAt <= now.getTime()) {
+        this.records.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * ------------------------------------------------------------
+ * SQLite
+ * ------------------------------------------------------------
+ * Takes an open handle (better-sqlite3 Database or node:sqlite
+ * DatabaseSync) so the driver stays the executor's choice. Claims run
+ * in BEGIN IMMEDIATE transactions, so processes sharing the file
+ * serialize on the write lock.
+ * ------------------------------------------------------------
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): { changes: number | bigint };
+    get(...params: unknown[]): unknown;
+  };
+}
+
+export class SqliteIdempotencyStore implements IdempotencyStore {
+  private table: string;
+
+  constructor(
+    private db: SqliteDatabase,
+    params: { table?: string } = {}
+  ) {
+    this.table = tableName(params.table ?? "solace_idempotency");
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+        "key TEXT PRIMARY KEY, state TEXT NOT NULL, result TEXT, expires_at INTEGER NOT NULL)"
+    );
+    db.exec(`CREATE INDEX IF NOT EXISTS ${this.table}_expires_at ON ${this.table} (expires_at)`);
+  }
+
+  private transaction<T>(fn: () => T): T {
+    this.db.exec("BEGIN IMMEDIATE");
+    try {
+      const out = fn();
+      this.db.exec("COMMIT");
+      return out;
+    } catch (e) {
+      this.db.exec("ROLLBACK");
+      throw e;
+    }
+  }
+
+  async claim(keys: string[], expiresAt: string): Promise<IdempotencyClaim> {
+    const exp = expiryMs(expiresAt);
+    const now = Date.now();
+
+    return this.transaction(() => {
+      const purge = this.db.prepare(`DELETE FROM ${this.table} WHERE key = ? AND expires_at <= ?`);
+      const select = this.db.prepare(`SELECT state, result FROM ${this.table} WHERE key = ?`);
+
+      for (const key of keys) {
+        purge.run(key, now);
+        const row = select.get(key) as { state: string; result: string | null } | undefined;
+        if (row) return existingClaim(key, row.state, row.result ? JSON.parse(row.result) : null);
+      }
+
+      const insert = this.db.prepare(
+        `INSERT INTO ${this.table} (key, state, result, expires_at) VALUES (?, 'pending', NULL, ?)`
+      );
+      for (const key of keys) insert.run(key, exp);
+      return { state: "claimed" } as IdempotencyClaim;
+    });
+  }
+
+  async complete(keys: string[], result: IdempotencyResult): Promise<void> {
+    const update = this.db.prepare(`UPDATE ${this.table} SET state = 'completed', result = ? WHERE key = ?`);
+    this.transaction(() => {
+      for (const key of keys) update.run(JSON.stringify(result), key);
+    });
+  }
+
+  async fail(keys: string[]): Promise<void> {
+    const remove = this.db.prepare(`DELETE FROM ${this.table} WHERE key = ? AND state = 'pending'`);
+    this.transaction(() => {
+      for (const key of keys) remove.run(key);
+    });
+  }
+
+  async cleanup(now: Date = new Date()): Promise<number> {
+    const out = this.db.prepare(`DELETE FROM ${this.table} WHERE expires_at <= ?`).run(now.getTime());
+    return Number(out.changes);
+  }
+}
+
+/**
+ * ------------------------------------------------------------
+ * Postgres
+ * ------------------------------------------------------------
+ * Takes a pg.Pool (or anything with query + connect). Keys are claimed
+ * in one transaction in sorted order: a concurrent claim of the same
+ * key waits on the uncommitted row, then sees the conflict.
+ * Call init() once (or create the table in a migration).
+ * ------------------------------------------------------------
+ */
+export interface PgQueryable {
+  query(text: string, values?: unknown[]): Promise<{ rows: any[]; rowCount?: number | null }>;
+}
+
+export interface PgPool extends PgQueryable {
+  connect(): Promise<PgQueryable & { release(): void }>;
+}
+
+export class PostgresIdempotencyStore implements IdempotencyStore {
+  private table: string;
+
+  constructor(
+    private pool: PgPool,
+    params: { table?: string } = {}
+  ) {
+    this.table = tableName(params.table ?? "solace_idempotency");
+  }
+
+  async init(): Promise<void> {
+    await this.pool.query(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+        "key text PRIMARY KEY, state text NOT NULL, result jsonb, expires_at timestamptz NOT NULL)"
+    );
+    await this.pool.query(`CREATE INDEX IF NOT EXISTS ${this.table}_expires_at ON ${this.table} (expires_at)`);
+  }
+
+  async claim(keys: string[], expiresAt: string): Promise<IdempotencyClaim> {
+    expiryMs(expiresAt);
+    const sorted = [...new Set(keys)].sort();
+
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(`DELETE FROM ${this.table} WHERE key = ANY($1::text[]) AND expires_at <= now()`, [sorted]);
+
+      const inserted = await client.query(
+        `INSERT INTO ${this.table} (key, state, expires_at) ` +
+          `SELECT k, 'pending', $2::timestamptz FROM unnest($1::text[]) AS k ` +
+          "ON CONFLICT (key) DO NOTHING RETURNING key",
+        [sorted, expiresAt]
+      );
+
+      if (inserted.rows.length === sorted.length) {
+        await client.query("COMMIT");
+        return { state: "claimed" };
+      }
+
+      const claimed = inserted.rows.map((r) => r.key as string);
+      const existing = await client.query(
+        `SELECT key, state, result FROM ${this.table} WHERE key = ANY($1::text[]) AND NOT (key = ANY($2::text[]))`,
+        [sorted, claimed]
+      );
+      await client.query("ROLLBACK");
+
+      const row = existing.rows[0];
+      // Conflicting row vanished in between (failed / expired): report in progress, retry later
+      if (!row) return { state: "pending", key: sorted[0] };
+      return existingClaim(row.key, row.state, row.result ?? null);
+    } catch (e) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  async complete(keys: string[], result: IdempotencyResult): Promise<void> {
+    await this.pool.query(
+      `UPDATE ${this.table} SET state = 'completed', result = $2::jsonb WHERE key = ANY($1::text[])`,
+      [keys, JSON.stringify(result)]
+    );
+  }
+
+  async fail(keys: string[]): Promise<void> {
+    await this.pool.query(`DELETE FROM ${this.table} WHERE key = ANY($1::text[]) AND state = 'pending'`, [keys]);
+  }
+
+  async cleanup(now: Date = new Date()): Promise<number> {
+    const out = await this.pool.query(`DELETE FROM ${this.table} WHERE expires_at <= $1::timestamptz`, [
+      now.toISOString(),
+    ]);
+    return out.rowCount ?? 0;
+  }
+}
+
+/**
+ * Runs store.cleanup() every intervalMs (default 60s). Returns a stop
+ * function. Failures are retried on the next tick.
+ */
+export function scheduleIdempotencyCleanup(
+  store: IdempotencyStore,
+  params: { intervalMs?: number } = {}
+): () => void {
+  const timer = setInterval(() => void store.cleanup().catch(() => undefined), params.intervalMs ?? 60000);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
@@ -3,7 +3,25 @@ export * from "./errors.js";
 export * from "./config.js";
 export * from "./canonical.js";
 export * from "./coreClient.js";
+export * from "./coreSignature.js";
 export * from "./receipt.js";
+export * from "./receiptKeys.js";
+export * from "./receiptJws.js";
+export * from "./receiptSigner.js";
+export * from "./receipts.js";
+export * from "./revocations.js";
 export * from "./executorVerifier.js";
+export * from "./executorSdk.js";
+export * from "./attestations.js";
+export * from "./idempotency.js";
+export * from "./trustRegistry.js";
+export * from "./schemas.js";
 export * from "./forwarding.js";
 export * from "./gate.js";
+export * from "./batch.js";
+export * from "./retry.js";
+export * from "./deadLetters.js";
+export * from "./acceptance.js";
+export * from "./stores.js";
+export * from "./decisionLog.js";
+export * from "./approvals.js";
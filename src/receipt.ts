@@ -2,8 +2,15 @@
 
 import crypto from "crypto";
 import { canonicalize, sha256Hex } from "./canonical.js";
-import type { Receipt } from "./types.js";
+import type {
+  Receipt,
+  ReceiptSigner,
+  ReceiptVerificationKey,
+  SimulatedReceipt,
+} from "./types.js";
 import { ConfigError } from "./errors.js";
+import { selectVerificationKey } from "./receiptKeys.js";
+import { receiptJwsSigningInput } from "./receiptJws.js";
 
 // NOTE: We use Ed25519 receipts by default (simple + robust). PEM is required.
 // crypto.sign(null, data, privateKey) works for Ed25519 in Node.
@@ -33,10 +40,11 @@ export function buildReceiptUnsigned(input: Omit<Receipt, "signature">): Omit<Re
 
 export function receiptSigningMaterial(unsigned: Omit<Receipt, "signature">): string {
   // Signature never includes itself
+  if (unsigned.signatureFormat === "jws") return receiptJwsSigningInput(unsigned);
   return canonicalize(unsigned);
 }
 
-export function signReceipt(params: {
+export interface ReceiptFields {
   adapterId: string;
   service: string;
 
@@ -51,70 +59,160 @@ export function signReceipt(params: {
   coreExpiresAt?: string;
   coreTime?: string;
 
-  receiptPrivateKeyPem: string;
+  coreSignature?: string;
+  coreKeyId?: string;
+
+  batchId?: string;
+
+  // "jws": sign over the JWS signing input (compact JWS header encoding)
+  signatureFormat?: "jws";
+
+  // 2 adds operation / organizationId / audience / requestId / nonce (default 1)
+  receiptVersion?: 1 | 2;
+  operation?: string;
+  organizationId?: string | null;
+  audience?: string;
+  requestId?: string | null;
+
   receiptTtlSeconds: number;
-}): Receipt {
-  const {
-    adapterId,
-    service,
-    actorId,
-    intent,
-    executeHash,
-    intentHash,
-    authorityKeyId,
-    coreIssuedAt,
-    coreExpiresAt,
-    coreTime,
-    receiptPrivateKeyPem,
-    receiptTtlSeconds,
-  } = params;
-
-  if (!receiptPrivateKeyPem) throw new ConfigError("missing_receipt_private_key_pem");
-  if (!adapterId) throw new ConfigError("missing_adapterId");
-  if (!service) throw new ConfigError("missing_service");
+}
+
+function v2Bindings(params: ReceiptFields): Partial<Omit<Receipt, "signature">> {
+  if (params.receiptVersion !== 2) return {};
+
+  if (!params.operation) throw new ConfigError("missing_operation");
+  if (!params.audience) throw new ConfigError("missing_audience");
+
+  return {
+    operation: params.operation,
+    organizationId: params.organizationId ?? null,
+    audience: params.audience,
+    requestId: params.requestId ?? null,
+    nonce: crypto.randomBytes(16).toString("base64url"),
+  };
+}
+
+function buildUnsignedReceipt(params: ReceiptFields & { kid?: string }): Omit<Receipt, "signature"> {
+  if (!params.adapterId) throw new ConfigError("missing_adapterId");
+  if (!params.service) throw new ConfigError("missing_service");
 
   const now = new Date();
-  const exp = new Date(now.getTime() + receiptTtlSeconds * 1000);
+  const exp = new Date(now.getTime() + params.receiptTtlSeconds * 1000);
 
-  const unsigned: Omit<Receipt, "signature"> = {
-    v: 1,
+  return {
+    v: params.receiptVersion === 2 ? 2 : 1,
     receiptId: uuidV4(),
-    adapterId,
-    service,
+    kid: params.kid,
+    signatureFormat: params.signatureFormat,
+    adapterId: params.adapterId,
+    service: params.service,
 
-    actorId,
-    intent,
-    executeHash,
+    actorId: params.actorId,
+    intent: params.intent,
+    executeHash: params.executeHash,
 
-    intentHash,
+    intentHash: params.intentHash,
     coreDecision: "PERMIT",
-    coreIssuedAt,
-    coreExpiresAt,
-    coreTime,
-    authorityKeyId: authorityKeyId ?? null,
+    coreIssuedAt: params.coreIssuedAt,
+    coreExpiresAt: params.coreExpiresAt,
+    coreTime: params.coreTime,
+    coreSignature: params.coreSignature,
+    coreKeyId: params.coreKeyId,
+    authorityKeyId: params.authorityKeyId ?? null,
+    batchId: params.batchId,
+    ...v2Bindings(params),
 
     issuedAt: toIso(now),
     expiresAt: toIso(exp),
   };
+}
+
+export function signReceipt(
+  params: ReceiptFields & {
+    receiptPrivateKeyPem: string;
+    // Id of receiptPrivateKeyPem in the published key set
+    kid?: string;
+  }
+): Receipt {
+  if (!params.receiptPrivateKeyPem) throw new ConfigError("missing_receipt_private_key_pem");
+
+  const unsigned = buildUnsignedReceipt(params);
 
   const material = receiptSigningMaterial(unsigned);
-  const signature = signEd25519Base64(receiptPrivateKeyPem, material);
+  const signature = signEd25519Base64(params.receiptPrivateKeyPem, material);
 
   return { ...unsigned, signature };
 }
 
+/**
+ * signReceipt through a ReceiptSigner (PEM, signing daemon, KMS).
+ */
+export async function signReceiptWith(signer: ReceiptSigner, params: ReceiptFields): Promise<Receipt> {
+  const { kid } = await signer.currentKey(new Date());
+  const unsigned = buildUnsignedReceipt({ ...params, kid });
+
+  const signature = await signer.sign({ kid, material: receiptSigningMaterial(unsigned) });
+  return { ...unsigned, signature };
+}
+
+/**
+ * Dry-run counterpart of signReceipt: same fields, no signature.
+ */
+export function buildSimulatedReceipt(params: ReceiptFields & { kid?: string }): SimulatedReceipt {
+  return {
+    ...buildUnsignedReceipt(params),
+    simulated: true,
+    signature: null,
+  };
+}
+
 export function verifyReceipt(params: {
   receipt: Receipt;
-  receiptPublicKeyPem: string;
+  // Single pinned key (kid ignored) ...
+  receiptPublicKeyPem?: string;
+  // ... or a key set, selected by receipt.kid (rotation)
+  receiptKeys?: ReceiptVerificationKey[];
+  // Exact JWS signing input as received (decodeReceiptJws)
+  signingInput?: string;
   now?: Date;
   clockSkewSeconds?: number;
+
+  // v1 migration window: v1 receipts are accepted unless acceptV1 is
+  // false, and only until acceptV1Until (checked against now, not issuedAt)
+  acceptV1?: boolean;
+  acceptV1Until?: string | Date;
 }): { ok: boolean; reason?: string } {
-  const { receipt, receiptPublicKeyPem } = params;
+  const { receipt } = params;
   const now = params.now ?? new Date();
   const skew = params.clockSkewSeconds ?? 10;
 
-  if (!receiptPublicKeyPem) return { ok: false, reason: "missing_receipt_public_key" };
-  if (!receipt || receipt.v !== 1) return { ok: false, reason: "invalid_receipt_version" };
+  if (!params.receiptPublicKeyPem && !params.receiptKeys?.length) {
+    return { ok: false, reason: "missing_receipt_public_key" };
+  }
+  if ((receipt as any)?.simulated) return { ok: false, reason: "receipt_simulated" };
+  if (!receipt || (receipt.v !== 1 && receipt.v !== 2)) {
+    return { ok: false, reason: "invalid_receipt_version" };
+  }
+
+  if (receipt.v === 1) {
+    if (params.acceptV1 === false) return { ok: false, reason: "receipt_v1_not_accepted" };
+    if (params.acceptV1Until !== undefined) {
+      const until = new Date(params.acceptV1Until).getTime();
+      if (Number.isNaN(until) || now.getTime() > until) {
+        return { ok: false, reason: "receipt_v1_not_accepted" };
+      }
+    }
+  } else if (
+    typeof receipt.operation !== "string" ||
+    !receipt.operation ||
+    typeof receipt.audience !== "string" ||
+    !receipt.audience ||
+    typeof receipt.nonce !== "string" ||
+    !receipt.nonce
+  ) {
+    return { ok: false, reason: "invalid_receipt_v2_bindings" };
+  }
+
   if (receipt.coreDecision !== "PERMIT") return { ok: false, reason: "receipt_not_permit" };
   if (!receipt.signature) return { ok: false, reason: "missing_receipt_signature" };
 
@@ -130,10 +228,26 @@ export function verifyReceipt(params: {
   if (!issuedOk) return { ok: false, reason: "receipt_not_yet_valid" };
   if (!notExpired) return { ok: false, reason: "receipt_expired" };
 
+  let publicKeyPem = params.receiptPublicKeyPem;
+  if (params.receiptKeys?.length) {
+    const k = selectVerificationKey(params.receiptKeys, {
+      kid: receipt.kid,
+      issuedAt: receipt.issuedAt,
+    });
+    if (!k.ok || !k.key) return { ok: false, reason: k.reason || "unknown_receipt_kid" };
+    publicKeyPem = k.key.publicKeyPem;
+  }
+
   const { signature, ...unsigned } = receipt;
-  const material = receiptSigningMaterial(unsigned as any);
 
-  const sigOk = verifyEd25519Base64(receiptPublicKeyPem, material, signature);
+  let sigOk = false;
+  try {
+    // Decoded header fields can be non-canonicalizable: treated as a bad signature
+    const material = params.signingInput ?? receiptSigningMaterial(unsigned as any);
+    sigOk = verifyEd25519Base64(publicKeyPem!, material, signature);
+  } catch {
+    sigOk = false;
+  }
   if (!sigOk) return { ok: false, reason: "invalid_receipt_signature" };
 
   return { ok: true };
@@ -0,0 +1,88 @@
+// src/receiptJws.ts
+// JWS compact serialization of receipts (RFC 7515, EdDSA / Ed25519).
+//
+// A receipt minted with signatureFormat "jws" is signed over the JWS
+// signing input instead of the canonical JSON:
+//
+//   header  = { alg: "EdDSA", kid, typ: "solace-receipt+jws" }
+//   payload = receipt without signature
+//   input   = b64url(canonicalize(header)) + "." + b64url(canonicalize(payload))
+//
+// Both parts are canonical, so the compact form can be rebuilt from the
+// stored Receipt at any time (retries, re-drives) without re-signing,
+// and any off-the-shelf JOSE library verifies the header value.
+//
+// Receipt.signature stays standard base64 in both formats.
+
+import { canonicalize } from "./canonical.js";
+import type { Receipt } from "./types.js";
+
+export const RECEIPT_JWS_TYP = "solace-receipt+jws";
+
+export interface ReceiptJwsHeader {
+  alg: "EdDSA";
+  kid?: string;
+  typ: typeof RECEIPT_JWS_TYP;
+}
+
+function b64url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+export function receiptJwsHeader(kid?: string): ReceiptJwsHeader {
+  return { alg: "EdDSA", kid, typ: RECEIPT_JWS_TYP };
+}
+
+export function receiptJwsSigningInput(unsigned: Omit<Receipt, "signature">): string {
+  return `${b64url(canonicalize(receiptJwsHeader(unsigned.kid)))}.${b64url(canonicalize(unsigned))}`;
+}
+
+export function encodeReceiptJws(receipt: Receipt): string {
+  const { signature, ...unsigned } = receipt;
+  return `${receiptJwsSigningInput(unsigned)}.${Buffer.from(signature, "base64").toString("base64url")}`;
+}
+
+export function isCompactJws(value: string): boolean {
+  return /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(value.trim());
+}
+
+/**
+ * Parses a compact receipt JWS. The signing input is returned as
+ * received: verification runs over those exact bytes, so JWS produced
+ * by other implementations (non-canonical JSON) verifies too.
+ */
+export function decodeReceiptJws(
+  compact: string
+): { ok: boolean; reason?: string; receipt?: Receipt; signingInput?: string; header?: ReceiptJwsHeader } {
+  const parts = compact.trim().split(".");
+  if (parts.length !== 3) return { ok: false, reason: "invalid_receipt_jws" };
+
+  let header: ReceiptJwsHeader;
+  let payload: Omit<Receipt, "signature">;
+  try {
+    header = JSON.parse(Buffer.from(parts[0], "base64url").toString("utf8"));
+    payload = JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8"));
+  } catch {
+    return { ok: false, reason: "invalid_receipt_jws" };
+  }
+
+  if (!header || header.typ !== RECEIPT_JWS_TYP) return { ok: false, reason: "invalid_receipt_jws_typ" };
+  if (header.alg !== "EdDSA") return { ok: false, reason: "invalid_receipt_jws_alg" };
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return { ok: false, reason: "invalid_receipt_jws" };
+  }
+
+  // The protected kid selects the key; the payload must agree with it
+  if ((header.kid ?? null) !== ((payload as Receipt).kid ?? null)) {
+    return { ok: false, reason: "receipt_jws_kid_mismatch" };
+  }
+
+  const signature = Buffer.from(parts[2], "base64url").toString("base64");
+
+  return {
+    ok: true,
+    header,
+    receipt: { ...payload, signature } as Receipt,
+    signingInput: `${parts[0]}.${parts[1]}`,
+  };
+}
@@ -0,0 +1,184 @@
+// src/receiptKeys.ts
+// Receipt signing key set (rotation without executor downtime).
+//
+// Adapter:
+// - every receipt carries the kid of the key that signed it
+// - the newest active key inside its validity window signs
+// - retired keys stay published so in-flight receipts still verify
+//
+// Executors:
+// - verify with a key set (receiptKeysFromJwks of GET /v1/receipt-keys)
+//   and pick the key by kid instead of pinning one PEM
+
+import crypto from "crypto";
+import { canonicalize } from "./canonical.js";
+import type {
+  AdapterForwardingConfig,
+  ReceiptJwk,
+  ReceiptSigningKey,
+  ReceiptVerificationKey,
+} from "./types.js";
+import { ConfigError } from "./errors.js";
+
+/**
+ * RFC 7638 JWK thumbprint (base64url sha256 over { crv, kty, x }).
+ * Default kid for keys configured without one.
+ */
+export function receiptKeyThumbprint(publicKeyPem: string): string {
+  const jwk = crypto.createPublicKey(publicKeyPem).export({ format: "jwk" }) as {
+    crv?: string;
+    kty?: string;
+    x?: string;
+  };
+  if (jwk.kty !== "OKP" || jwk.crv !== "Ed25519" || !jwk.x) {
+    throw new ConfigError("receipt_key_not_ed25519");
+  }
+
+  return crypto
+    .createHash("sha256")
+    .update(canonicalize({ crv: jwk.crv, kty: jwk.kty, x: jwk.x }))
+    .digest("base64url");
+}
+
+function withinWindow(key: ReceiptVerificationKey, at: Date): boolean {
+  const t = at.getTime();
+  // Negated so an unparseable bound (NaN) counts as outside the window
+  if (key.notBefore && !(t >= new Date(key.notBefore).getTime())) return false;
+  if (key.notAfter && !(t <= new Date(key.notAfter).getTime())) return false;
+  return true;
+}
+
+const singleKeySets = new WeakMap<AdapterForwardingConfig, ReceiptSigningKey[]>();
+
+/**
+ * Key set for a config: cfg.receiptKeys, or the single configured PEM pair.
+ */
+export function receiptKeySet(cfg: AdapterForwardingConfig): ReceiptSigningKey[] {
+  if (cfg.receiptKeys?.length) return cfg.receiptKeys;
+
+  let set = singleKeySets.get(cfg);
+  if (!set || set[0].publicKeyPem !== cfg.receiptPublicKeyPem) {
+    set = [
+      {
+        kid: receiptKeyThumbprint(cfg.receiptPublicKeyPem),
+        status: "active",
+        publicKeyPem: cfg.receiptPublicKeyPem,
+        privateKeyPem: cfg.receiptPrivateKeyPem,
+      },
+    ];
+    singleKeySets.set(cfg, set);
+  }
+  return set;
+}
+
+/**
+ * Newest active key (latest notBefore) whose window covers `now`.
+ */
+export function selectActiveKey<K extends ReceiptVerificationKey>(
+  keys: K[],
+  now: Date = new Date()
+): K {
+  const candidates = keys
+    .filter((k) => k.status === "active" && withinWindow(k, now))
+    .sort((a, b) => (b.notBefore ?? "").localeCompare(a.notBefore ?? ""));
+
+  if (!candidates.length) throw new ConfigError("no_active_receipt_signing_key");
+  return candidates[0];
+}
+
+/**
+ * The key that signs receipts minted at `now` in-process: the newest
+ * active key that has a private key.
+ */
+export function selectSigningKey(
+  keys: ReceiptSigningKey[],
+  now: Date = new Date()
+): ReceiptSigningKey & { privateKeyPem: string } {
+  return selectActiveKey(
+    keys.filter((k) => k.privateKeyPem),
+    now
+  ) as ReceiptSigningKey & { privateKeyPem: string };
+}
+
+/**
+ * Verification key for a receipt/feed signed by `kid` at `issuedAt`.
+ * Without a kid (receipts minted before rotation support) only a
+ * single-key set is unambiguous.
+ */
+export function selectVerificationKey(
+  keys: ReceiptVerificationKey[],
+  params: { kid?: string; issuedAt?: string }
+): { ok: boolean; reason?: string; key?: ReceiptVerificationKey } {
+  let key: ReceiptVerificationKey | undefined;
+
+  if (params.kid) {
+    key = keys.find((k) => k.kid === params.kid);
+    if (!key) return { ok: false, reason: "unknown_receipt_kid" };
+  } else {
+    if (keys.length !== 1) return { ok: false, reason: "missing_receipt_kid" };
+    key = keys[0];
+  }
+
+  if (params.issuedAt) {
+    const at = new Date(params.issuedAt);
+    if (Number.isNaN(at.getTime()) || !withinWindow(key, at)) {
+      return { ok: false, reason: "receipt_key_not_valid_at_issue" };
+    }
+  }
+
+  return { ok: true, key };
+}
+
+export function receiptKeysToJwks(keys: ReceiptVerificationKey[]): { keys: ReceiptJwk[] } {
+  return {
+    keys: keys.map((k) => {
+      const jwk = crypto.createPublicKey(k.publicKeyPem).export({ format: "jwk" }) as { x: string };
+      return {
+        kty: "OKP",
+        crv: "Ed25519",
+        x: jwk.x,
+        kid: k.kid,
+        use: "sig",
+        alg: "EdDSA",
+        status: k.status,
+        notBefore: k.notBefore,
+        notAfter: k.notAfter,
+      };
+    }),
+  };
+}
+
+export function receiptKeysFromJwks(jwks: { keys?: unknown }): ReceiptVerificationKey[] {
+  if (!jwks || !Array.isArray(jwks.keys)) throw new ConfigError("invalid_receipt_jwks");
+
+  return (jwks.keys as ReceiptJwk[]).map((j) => {
+    if (j?.kty !== "OKP" || j.crv !== "Ed25519" || !j.x || !j.kid) {
+      throw new ConfigError("invalid_receipt_jwk", { kid: j?.kid ?? null });
+    }
+
+    const publicKeyPem = crypto
+      .createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: j.x }, format: "jwk" })
+      .export({ type: "spki", format: "pem" })
+      .toString();
+
+    return {
+      kid: j.kid,
+      status: j.status === "retired" ? "retired" : "active",
+      publicKeyPem,
+      notBefore: j.notBefore,
+      notAfter: j.notAfter,
+    };
+  });
+}
+
+export async function fetchReceiptKeys(
+  url: string,
+  params: { timeoutMs?: number; headers?: Record<string, string> } = {}
+): Promise<ReceiptVerificationKey[]> {
+  const res = await fetch(url, {
+    headers: { accept: "application/json", ...(params.headers || {}) },
+    signal: AbortSignal.timeout(params.timeoutMs ?? 5000),
+  });
+  if (!res.ok) throw new Error(`receipt_keys_http_${res.status}`);
+  return receiptKeysFromJwks((await res.json()) as { keys?: unknown });
+}
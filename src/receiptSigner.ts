@@ -0,0 +1,185 @@
+// src/receiptSigner.ts
+// Receipt signers.
+// - PemReceiptSigner: in-process Ed25519 PEM keys (default)
+// - RemoteReceiptSigner: local signing daemon over HTTP or a Unix socket;
+//   the private key never enters the adapter process
+// - KMS / HSM: implement ReceiptSigner (currentKey + sign)
+//
+// Signing daemon protocol:
+//   GET  /v1/key   → { "kid": "..." }
+//   POST /v1/sign  { "kid", "alg": "EdDSA", "payload": base64(material) }
+//                  → { "kid", "signature": base64 }
+
+import crypto from "crypto";
+import http from "http";
+import https from "https";
+import type {
+  AdapterForwardingConfig,
+  ReceiptSigner,
+  ReceiptSigningKey,
+  ReceiptVerificationKey,
+} from "./types.js";
+import { ConfigError, FailClosedError, asMessage } from "./errors.js";
+import { receiptKeySet, selectSigningKey, selectVerificationKey } from "./receiptKeys.js";
+
+export class PemReceiptSigner implements ReceiptSigner {
+  constructor(private keys: ReceiptSigningKey[]) {
+    if (!keys.some((k) => k.privateKeyPem)) throw new ConfigError("missing_receipt_private_key_pem");
+  }
+
+  async currentKey(now: Date = new Date()): Promise<{ kid: string }> {
+    return { kid: selectSigningKey(this.keys, now).kid };
+  }
+
+  async sign(params: { kid: string; material: string }): Promise<string> {
+    const key = this.keys.find((k) => k.kid === params.kid);
+    if (!key?.privateKeyPem) throw new FailClosedError("receipt_signing_key_unavailable", { kid: params.kid });
+
+    return crypto.sign(null, Buffer.from(params.material, "utf8"), key.privateKeyPem).toString("base64");
+  }
+}
+
+/**
+ * ------------------------------------------------------------
+ * Signing daemon client (HTTP or Unix socket)
+ * ------------------------------------------------------------
+ * With verifyKeys, every signature is checked against the published
+ * key set before use, so a misconfigured daemon fails closed here
+ * instead of at every executor.
+ * ------------------------------------------------------------
+ */
+export class RemoteReceiptSigner implements ReceiptSigner {
+  private cachedKey: { kid: string; at: number } | null = null;
+
+  constructor(
+    private params: {
+      // http(s)://host:port base URL, or ...
+      url?: string;
+      // ... a Unix domain socket path (HTTP over the socket)
+      socketPath?: string;
+      bearerToken?: string;
+      timeoutMs?: number;
+      keyCacheMs?: number;
+      verifyKeys?: ReceiptVerificationKey[];
+    }
+  ) {
+    if (!params.url && !params.socketPath) throw new ConfigError("missing_receipt_signer_endpoint");
+  }
+
+  private request(method: "GET" | "POST", path: string, body?: unknown): Promise<any> {
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const headers: Record<string, string> = { accept: "application/json" };
+    if (payload !== undefined) headers["content-type"] = "application/json";
+    if (this.params.bearerToken) headers.authorization = `Bearer ${this.params.bearerToken}`;
+
+    let transport: typeof http | typeof https = http;
+    const options: http.RequestOptions = {
+      method,
+      headers,
+      timeout: this.params.timeoutMs ?? 2000,
+    };
+
+    if (this.params.socketPath) {
+      options.socketPath = this.params.socketPath;
+      options.path = path;
+    } else {
+      const base = new URL(this.params.url!);
+      const target = new URL(base.pathname.replace(/\/$/, "") + path, base);
+      transport = target.protocol === "https:" ? https : http;
+      options.protocol = target.protocol;
+      options.hostname = target.hostname;
+      options.port = target.port;
+      options.path = target.pathname;
+    }
+
+    return new Promise((resolve, reject) => {
+      const req = transport.request(options, (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (c: Buffer) => chunks.push(c));
+        res.on("end", () => {
+          const text = Buffer.concat(chunks).toString("utf8");
+          if ((res.statusCode ?? 0) >= 400) {
+            return reject(new FailClosedError("receipt_signer_http_error", { status: res.statusCode ?? null }));
+          }
+          try {
+            resolve(JSON.parse(text));
+          } catch {
+            reject(new FailClosedError("receipt_signer_invalid_response"));
+          }
+        });
+        res.on("error", reject);
+      });
+
+      req.on("timeout", () => req.destroy(new FailClosedError("receipt_signer_timeout")));
+      req.on("error", (e) =>
+        reject(e instanceof FailClosedError ? e : new FailClosedError("receipt_signer_unreachable", { error: asMessage(e) }))
+      );
+
+      if (payload !== undefined) req.write(payload);
+      req.end();
+    });
+  }
+
+  async currentKey(): Promise<{ kid: string }> {
+    const ttl = this.params.keyCacheMs ?? 30000;
+    if (this.cachedKey && Date.now() - this.cachedKey.at < ttl) return { kid: this.cachedKey.kid };
+
+    const out = await this.request("GET", "/v1/key");
+    if (!out || typeof out.kid !== "string" || !out.kid) {
+      throw new FailClosedError("receipt_signer_invalid_response");
+    }
+
+    this.cachedKey = { kid: out.kid, at: Date.now() };
+    return { kid: out.kid };
+  }
+
+  async sign(params: { kid: string; material: string }): Promise<string> {
+    const out = await this.request("POST", "/v1/sign", {
+      kid: params.kid,
+      alg: "EdDSA",
+      payload: Buffer.from(params.material, "utf8").toString("base64"),
+    });
+
+    if (!out || out.kid !== params.kid || typeof out.signature !== "string") {
+      // Daemon rotated underneath us: re-read the key next time
+      this.cachedKey = null;
+      throw new FailClosedError("receipt_signer_invalid_response", { kid: params.kid });
+    }
+
+    if (this.params.verifyKeys?.length) {
+      const k = selectVerificationKey(this.params.verifyKeys, { kid: params.kid });
+      let ok = false;
+      try {
+        ok =
+          !!k.key &&
+          crypto.verify(
+            null,
+            Buffer.from(params.material, "utf8"),
+            k.key.publicKeyPem,
+            Buffer.from(out.signature, "base64")
+          );
+      } catch {
+        ok = false;
+      }
+      if (!ok) throw new FailClosedError("receipt_signer_signature_invalid", { kid: params.kid });
+    }
+
+    return out.signature;
+  }
+}
+
+const defaultSigners = new WeakMap<AdapterForwardingConfig, ReceiptSigner>();
+
+/**
+ * cfg.receiptSigner, or an in-process PEM signer over the config key set.
+ */
+export function receiptSignerFor(cfg: AdapterForwardingConfig): ReceiptSigner {
+  if (cfg.receiptSigner) return cfg.receiptSigner;
+
+  let signer = defaultSigners.get(cfg);
+  if (!signer) {
+    signer = new PemReceiptSigner(receiptKeySet(cfg));
+    defaultSigners.set(cfg, signer);
+  }
+  return signer;
+}
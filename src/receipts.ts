@@ -0,0 +1,146 @@
+// src/receipts.ts
+// Minted-receipt records for lookup by executors and support staff.
+//
+// A record is written as soon as a receipt is minted (forward
+// "pending") and updated with the forward outcome and an executor
+// response summary. Lookups are tenant-scoped: another tenant's
+// receipt is indistinguishable from a missing one.
+//
+// Storage is any ReceiptStore (RecordStore<ReceiptRecord>).
+
+import type {
+  AdapterGateResult,
+  ExecutorResponseSummary,
+  GateOptions,
+  GatePlan,
+  Receipt,
+  ReceiptRecord,
+  ReceiptStore,
+} from "./types.js";
+import { canonicalize, sha256Hex } from "./canonical.js";
+
+const BODY_PREVIEW_CHARS = 256;
+
+export function summarizeExecutorResponse(
+  status: number,
+  body: unknown
+): ExecutorResponseSummary {
+  if (body === undefined || body === null) return { status, bodyHash: null };
+
+  let preview: string | undefined;
+  try {
+    const json = typeof body === "string" ? body : JSON.stringify(body);
+    preview = json.length > BODY_PREVIEW_CHARS ? json.slice(0, BODY_PREVIEW_CHARS) + "…" : json;
+  } catch {
+    preview = undefined;
+  }
+
+  let bodyHash: string;
+  try {
+    bodyHash = sha256Hex(typeof body === "string" ? body : canonicalize(body));
+  } catch {
+    // Executor JSON without a JCS form (e.g. lone surrogates): hash it as received
+    bodyHash = sha256Hex(JSON.stringify(body) ?? "");
+  }
+
+  return { status, bodyHash, bodyPreview: preview };
+}
+
+/**
+ * Persist a freshly minted receipt (before it is forwarded).
+ */
+export async function recordMintedReceipt(
+  opts: GateOptions,
+  plan: GatePlan,
+  receipt: Receipt
+): Promise<ReceiptRecord | null> {
+  if (!opts.receipts) return null;
+
+  const now = new Date().toISOString();
+  const record: ReceiptRecord = {
+    receiptId: receipt.receiptId,
+    organizationId: opts.organizationId ?? null,
+    requestId: opts.requestId ?? null,
+    service: plan.service,
+    operation: plan.operation,
+    executeHash: receipt.executeHash,
+    intentHash: receipt.intentHash,
+    receipt,
+    core: {
+      decision: plan.core.decision,
+      reason: plan.core.reason ?? null,
+      authorityKeyId: plan.core.authorityKeyId ?? null,
+      issuedAt: plan.core.issuedAt ?? null,
+      expiresAt: plan.core.expiresAt ?? null,
+      time: plan.core.time ?? null,
+      keyId: plan.core.keyId ?? null,
+      signed: Boolean(plan.core.signature),
+    },
+    forward: { outcome: "pending", attempts: 0 },
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await opts.receipts.put(record.receiptId, record);
+  return record;
+}
+
+/**
+ * Record the outcome of a forward (first attempt or retry).
+ */
+export async function recordReceiptForward(
+  store: ReceiptStore | undefined,
+  receiptId: string,
+  outcome:
+    | { result: AdapterGateResult }
+    | { failed: string }
+): Promise<ReceiptRecord | null> {
+  if (!store) return null;
+
+  const record = await store.get(receiptId);
+  if (!record) return null;
+
+  if ("failed" in outcome) {
+    record.forward = { ...record.forward, outcome: "failed", error: outcome.failed };
+  } else {
+    const { result } = outcome;
+    record.forward = {
+      outcome: result.forwardOutcome === "delivered" ? "delivered" : "unknown",
+      attempts: result.forwardAttempts ?? record.forward.attempts + 1,
+      error: result.forwardError,
+      executor:
+        result.forwardStatus !== undefined
+          ? summarizeExecutorResponse(result.forwardStatus, result.forwardBody)
+          : undefined,
+      execution: result.execution,
+      executionAttestation: result.executionAttestation,
+    };
+  }
+  record.updatedAt = new Date().toISOString();
+
+  await store.put(record.receiptId, record);
+  return record;
+}
+
+export async function getReceiptRecord(
+  store: ReceiptStore,
+  receiptId: string,
+  params: { organizationId?: string | null } = {}
+): Promise<ReceiptRecord | null> {
+  const record = await store.get(receiptId);
+  if (!record) return null;
+  if ((record.organizationId ?? null) !== (params.organizationId ?? null)) return null;
+  return record;
+}
+
+export async function findReceiptsByExecuteHash(
+  store: ReceiptStore,
+  executeHash: string,
+  params: { organizationId?: string | null } = {}
+): Promise<ReceiptRecord[]> {
+  const orgId = params.organizationId ?? null;
+  const records = await store.list(
+    (r) => r.executeHash === executeHash && (r.organizationId ?? null) === orgId
+  );
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
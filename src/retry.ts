@@ -0,0 +1,126 @@
+// src/retry.ts
+// Receipt-bound forward retry.
+//
+// A retry never asks Core again and never mints a new receipt:
+// - already delivered   → report the recorded outcome (no re-send)
+// - receipt expired     → DENY; the client needs a fresh gate call
+// - receipt revoked     → DENY (receipt_revoked)
+// - otherwise           → re-forward with the SAME receipt and
+//                         idempotency-key, so the executor can dedupe
+//
+// A re-forward first claims the record (store.update: "unknown" →
+// "pending"), so replicas sharing the store never re-send concurrently.
+// A "pending" record nobody has touched for forwardLeaseMs (its
+// forwarder died mid-forward) may be claimed the same way.
+
+import type {
+  AdapterForwardingConfig,
+  AdapterGateResult,
+  ForwardRecord,
+  ReceiptStore,
+  RecordStore,
+  RevocationChecker,
+} from "./types.js";
+import { forwardPermitted } from "./gate.js";
+import { forwardLeaseMs } from "./forwarding.js";
+
+function isClaimable(record: ForwardRecord, leaseMs: number, now: Date): boolean {
+  if (record.outcome === "unknown") return true;
+  if (record.outcome !== "pending") return false;
+  const touchedAt = new Date(record.updatedAt).getTime();
+  return Number.isNaN(touchedAt) || now.getTime() - touchedAt > leaseMs;
+}
+
+export async function retryForward(
+  cfg: AdapterForwardingConfig,
+  store: RecordStore<ForwardRecord>,
+  params: {
+    receiptId: string;
+    organizationId?: string;
+    requestId?: string;
+    receipts?: ReceiptStore;
+    // A revoked receipt is never re-sent
+    revocationChecker?: RevocationChecker;
+    now?: Date;
+  }
+): Promise<AdapterGateResult> {
+  const now = params.now ?? new Date();
+
+  const record = await store.get(params.receiptId);
+
+  // Other tenants' receipts are indistinguishable from missing ones
+  if (!record || (record.organizationId ?? null) !== (params.organizationId ?? null)) {
+    return { decision: "DENY", reason: "receipt_not_found" };
+  }
+
+  const bound = {
+    receipt: record.receipt,
+    executeHash: record.receipt.executeHash,
+    intentHash: record.receipt.intentHash,
+    authorityKeyId: record.receipt.authorityKeyId ?? null,
+    forwardAttempts: record.attempts.length,
+  };
+
+  if (record.outcome === "delivered") {
+    return {
+      decision: "PERMIT",
+      reason: "already_delivered",
+      forwardStatus: record.forwardStatus,
+      forwardBody: record.forwardBody,
+      forwardOutcome: "delivered",
+      execution: record.execution,
+      executionReason: record.executionReason,
+      executionAttestation: record.executionAttestation,
+      replayed: true,
+      ...bound,
+    };
+  }
+
+  // The original gate call (or another retry) is still forwarding
+  const target = cfg.targets[record.service];
+  const leaseMs = target ? forwardLeaseMs(target) : 0;
+  if (!isClaimable(record, leaseMs, now)) {
+    return { decision: "DENY", reason: "forward_in_progress", ...bound };
+  }
+
+  const expiresAt = new Date(record.receipt.expiresAt).getTime();
+  if (Number.isNaN(expiresAt) || now.getTime() >= expiresAt) {
+    return {
+      decision: "DENY",
+      reason: "receipt_expired_new_decision_required",
+      forwardOutcome: "unknown",
+      forwardError: record.forwardError,
+      ...bound,
+    };
+  }
+
+  const revoked = params.revocationChecker?.(record.receipt);
+  if (revoked?.revoked) {
+    return { decision: "DENY", reason: revoked.reason || "receipt_revoked", ...bound };
+  }
+
+  const claimed = await store.update(record.receiptId, (current) =>
+    current && isClaimable(current, leaseMs, now)
+      ? { ...current, outcome: "pending", updatedAt: new Date().toISOString() }
+      : null
+  );
+  if (!claimed) {
+    return { decision: "DENY", reason: "forward_in_progress", ...bound };
+  }
+
+  return forwardPermitted(
+    cfg,
+    {
+      service: claimed.service,
+      operation: claimed.operation,
+      envelope: claimed.envelope,
+      receipt: claimed.receipt,
+    },
+    {
+      forwards: store,
+      receipts: params.receipts,
+      organizationId: claimed.organizationId ?? undefined,
+      requestId: params.requestId,
+    }
+  );
+}
@@ -0,0 +1,286 @@
+// src/revocations.ts
+// Receipt revocation: recall receipts that are issued but not yet executed.
+//
+// Adapter side:
+// - revokeReceipts: record a revocation by receiptId, actorId,
+//   authorityKeyId or service
+// - buildRevocationFeed: signed feed served at GET /v1/revocations
+//   (Ed25519 with the receipt signing key + kid, so executors need no new key);
+//   entries carry only what matching needs (no reason / revokedBy)
+//
+// Executor side:
+// - createRevocationChecker: static list → RevocationChecker
+// - RevocationFeedPoller: polls + verifies the feed, exposes a cached
+//   RevocationChecker; only accepts strictly newer feeds and fails closed
+//   once the feed's own issuedAt is older than maxStalenessMs, so replaying
+//   an old signed feed cannot hide later revocations
+//
+// Scope-wide revocations only cover receipts issued at or before the
+// revocation. Receipts minted afterwards went through Core again.
+
+import crypto from "crypto";
+import { canonicalize } from "./canonical.js";
+import type {
+  AdapterForwardingConfig,
+  Receipt,
+  ReceiptVerificationKey,
+  RecordStore,
+  Revocation,
+  RevocationCheckResult,
+  RevocationChecker,
+  RevocationFeed,
+  RevocationFeedEntry,
+  RevocationScope,
+  SignedRevocationFeed,
+} from "./types.js";
+import { asMessage } from "./errors.js";
+import { selectVerificationKey } from "./receiptKeys.js";
+import { receiptSignerFor } from "./receiptSigner.js";
+
+const SCOPES: RevocationScope[] = ["receiptId", "actorId", "authorityKeyId", "service"];
+
+export function isRevocationScope(value: unknown): value is RevocationScope {
+  return SCOPES.includes(value as RevocationScope);
+}
+
+export async function revokeReceipts(
+  cfg: AdapterForwardingConfig,
+  store: RecordStore<Revocation>,
+  params: {
+    scope: RevocationScope;
+    value: string;
+    reason?: string;
+    by: string;
+    now?: Date;
+  }
+): Promise<{ ok: boolean; reason?: string; revocation?: Revocation }> {
+  const now = params.now ?? new Date();
+
+  if (!isRevocationScope(params.scope)) return { ok: false, reason: "invalid_revocation_scope" };
+
+  const value = String(params.value ?? "").trim();
+  if (!value) return { ok: false, reason: "missing_revocation_value" };
+
+  const retentionSeconds = cfg.revocationRetentionSeconds ?? 86400;
+
+  const revocation: Revocation = {
+    id: crypto.randomUUID(),
+    scope: params.scope,
+    value,
+    reason: params.reason ?? null,
+    revokedBy: params.by,
+    revokedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + retentionSeconds * 1000).toISOString(),
+  };
+
+  await store.put(revocation.id, revocation);
+  return { ok: true, revocation };
+}
+
+export async function listActiveRevocations(
+  store: RecordStore<Revocation>,
+  now: Date = new Date()
+): Promise<Revocation[]> {
+  const items = await store.list((r) => new Date(r.expiresAt).getTime() > now.getTime());
+  return items.sort((a, b) => a.revokedAt.localeCompare(b.revokedAt));
+}
+
+/**
+ * Returns the revocation covering this receipt, if any.
+ */
+export function findRevocation<R extends RevocationFeedEntry>(receipt: Receipt, revocations: R[]): R | null {
+  const issuedAt = new Date(receipt.issuedAt).getTime();
+
+  for (const r of revocations) {
+    if (r.scope === "receiptId") {
+      if (receipt.receiptId === r.value) return r;
+      continue;
+    }
+
+    const subject =
+      r.scope === "actorId"
+        ? receipt.actorId
+        : r.scope === "authorityKeyId"
+          ? receipt.authorityKeyId
+          : receipt.service;
+    if (subject !== r.value) continue;
+
+    // Unparseable issuedAt: treat as covered (fail closed)
+    if (Number.isNaN(issuedAt) || issuedAt <= new Date(r.revokedAt).getTime()) return r;
+  }
+
+  return null;
+}
+
+export function createRevocationChecker(revocations: RevocationFeedEntry[]): RevocationChecker {
+  return (receipt) => {
+    const r = findRevocation(receipt, revocations);
+    return r ? { revoked: true, reason: "receipt_revoked", revocationId: r.id } : { revoked: false };
+  };
+}
+
+export function revocationFeedSigningMaterial(feed: RevocationFeed): string {
+  return canonicalize(feed);
+}
+
+export async function buildRevocationFeed(
+  cfg: AdapterForwardingConfig,
+  revocations: Revocation[],
+  now: Date = new Date()
+): Promise<SignedRevocationFeed> {
+  const feed: RevocationFeed = {
+    adapterId: cfg.adapterId,
+    issuedAt: now.toISOString(),
+    revocations: revocations.map(({ id, scope, value, revokedAt, expiresAt }) => ({
+      id,
+      scope,
+      value,
+      revokedAt,
+      expiresAt,
+    })),
+  };
+
+  const signer = receiptSignerFor(cfg);
+  const { kid } = await signer.currentKey(now);
+  const signature = await signer.sign({ kid, material: revocationFeedSigningMaterial(feed) });
+
+  return { feed, signature, kid };
+}
+
+export function verifyRevocationFeed(params: {
+  signed: SignedRevocationFeed;
+  receiptPublicKeyPem?: string;
+  receiptKeys?: ReceiptVerificationKey[];
+  expectedAdapterId?: string;
+}): { ok: boolean; reason?: string; feed?: RevocationFeed } {
+  const { signed } = params;
+
+  if (!signed?.feed || typeof signed.signature !== "string" || !Array.isArray(signed.feed.revocations)) {
+    return { ok: false, reason: "invalid_revocation_feed" };
+  }
+
+  let publicKeyPem = params.receiptPublicKeyPem;
+  if (params.receiptKeys?.length) {
+    const k = selectVerificationKey(params.receiptKeys, {
+      kid: signed.kid,
+      issuedAt: signed.feed.issuedAt,
+    });
+    if (!k.ok || !k.key) return { ok: false, reason: k.reason || "unknown_receipt_kid" };
+    publicKeyPem = k.key.publicKeyPem;
+  }
+  if (!publicKeyPem) return { ok: false, reason: "missing_receipt_public_key" };
+
+  let ok = false;
+  try {
+    ok = crypto.verify(
+      null,
+      Buffer.from(revocationFeedSigningMaterial(signed.feed), "utf8"),
+      publicKeyPem,
+      Buffer.from(signed.signature, "base64")
+    );
+  } catch {
+    ok = false;
+  }
+  if (!ok) return { ok: false, reason: "invalid_revocation_feed_signature" };
+
+  if (params.expectedAdapterId && signed.feed.adapterId !== params.expectedAdapterId) {
+    return { ok: false, reason: "revocation_feed_adapter_mismatch" };
+  }
+
+  return { ok: true, feed: signed.feed };
+}
+
+/**
+ * ------------------------------------------------------------
+ * Executor-side cached feed poller
+ * ------------------------------------------------------------
+ * check() never does I/O. It fails closed when no feed has been
+ * loaded yet or the last good feed was issued more than
+ * maxStalenessMs ago. Feeds that are not strictly newer than the one
+ * it holds, or already stale, are rejected: a replayed feed can
+ * neither reset staleness nor roll back revocations.
+ * ------------------------------------------------------------
+ */
+export class RevocationFeedPoller {
+  private feed: RevocationFeed | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  lastError: string | null = null;
+
+  constructor(
+    private params: {
+      url: string;
+      receiptPublicKeyPem?: string;
+      receiptKeys?: ReceiptVerificationKey[];
+      expectedAdapterId?: string;
+      intervalMs?: number;
+      maxStalenessMs?: number;
+      timeoutMs?: number;
+      headers?: Record<string, string>;
+    }
+  ) {}
+
+  async refresh(): Promise<boolean> {
+    try {
+      const res = await fetch(this.params.url, {
+        headers: { accept: "application/json", ...(this.params.headers || {}) },
+        signal: AbortSignal.timeout(this.params.timeoutMs ?? 5000),
+      });
+      if (!res.ok) throw new Error(`revocation_feed_http_${res.status}`);
+
+      const v = verifyRevocationFeed({
+        signed: (await res.json()) as SignedRevocationFeed,
+        receiptPublicKeyPem: this.params.receiptPublicKeyPem,
+        receiptKeys: this.params.receiptKeys,
+        expectedAdapterId: this.params.expectedAdapterId,
+      });
+      if (!v.ok || !v.feed) throw new Error(v.reason || "invalid_revocation_feed");
+
+      const issuedAt = new Date(v.feed.issuedAt).getTime();
+      if (Number.isNaN(issuedAt)) throw new Error("invalid_revocation_feed_issued_at");
+      if (this.feed && issuedAt <= new Date(this.feed.issuedAt).getTime()) {
+        throw new Error("revocation_feed_not_newer");
+      }
+      if (this.isStale(issuedAt)) throw new Error("revocation_feed_stale");
+
+      this.feed = v.feed;
+      this.lastError = null;
+      return true;
+    } catch (e) {
+      this.lastError = asMessage(e);
+      return false;
+    }
+  }
+
+  start(): Promise<boolean> {
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.refresh(), this.params.intervalMs ?? 15000);
+      this.timer.unref?.();
+    }
+    return this.refresh();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private isStale(issuedAt: number): boolean {
+    return Date.now() - issuedAt > (this.params.maxStalenessMs ?? 120000);
+  }
+
+  check(receipt: Receipt): RevocationCheckResult {
+    if (!this.feed) return { revoked: true, reason: "revocation_feed_unavailable" };
+
+    if (this.isStale(new Date(this.feed.issuedAt).getTime())) {
+      return { revoked: true, reason: "revocation_feed_stale" };
+    }
+
+    const r = findRevocation(receipt, this.feed.revocations);
+    return r ? { revoked: true, reason: "receipt_revoked", revocationId: r.id } : { revoked: false };
+  }
+
+  checker(): RevocationChecker {
+    return (receipt) => this.check(receipt);
+  }
+}
@@ -0,0 +1,93 @@
+// src/schemas.ts
+// Per-action JSON Schema validation of execute payloads.
+//
+// One schema per "<service>:<operation>". The adapter validates before
+// calling Core; executors can load the same registry and validate
+// again in verifyExecutorRequest, so the schema doubles as the
+// documented contract for each action.
+//
+// Directory layout (SOLACE_ADAPTER_EXECUTE_SCHEMAS_DIR):
+//   payments.refund.json   -> "payments:refund"
+//   booking.cancel.json    -> "booking:cancel"
+
+import fs from "fs";
+import path from "path";
+import { Ajv, type ValidateFunction } from "ajv";
+import type {
+  ExecuteSchemaResult,
+  ExecuteSchemaValidationError,
+  ExecuteSchemaValidator,
+} from "./types.js";
+import { ConfigError } from "./errors.js";
+
+export class ExecuteSchemaRegistry implements ExecuteSchemaValidator {
+  private ajv = new Ajv({ allErrors: true, strict: false });
+  private validators = new Map<string, ValidateFunction>();
+
+  register(action: string, schema: object): void {
+    if (!action || !action.includes(":")) {
+      throw new ConfigError("invalid_schema_action", { action });
+    }
+    try {
+      this.validators.set(action, this.ajv.compile(schema));
+    } catch (e) {
+      throw new ConfigError("invalid_execute_schema", {
+        action,
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  has(action: string): boolean {
+    return this.validators.has(action);
+  }
+
+  actions(): string[] {
+    return [...this.validators.keys()].sort();
+  }
+
+  validate(action: string, execute: unknown): ExecuteSchemaResult {
+    const validator = this.validators.get(action);
+    if (!validator) return { ok: false, reason: "execute_schema_missing" };
+
+    if (validator(execute)) return { ok: true };
+
+    const errors: ExecuteSchemaValidationError[] = (validator.errors || []).map((e) => ({
+      path: e.instancePath || "/",
+      keyword: e.keyword,
+      message: e.message || "invalid",
+    }));
+
+    return { ok: false, reason: "execute_schema_invalid", errors };
+  }
+}
+
+export function loadExecuteSchemasFromDir(dir: string): ExecuteSchemaRegistry {
+  if (!dir || !fs.existsSync(dir)) {
+    throw new ConfigError("missing_execute_schemas_dir", { dir });
+  }
+
+  const registry = new ExecuteSchemaRegistry();
+
+  for (const file of fs.readdirSync(dir).sort()) {
+    if (!file.endsWith(".json")) continue;
+
+    const base = file.slice(0, -".json".length);
+    const dot = base.indexOf(".");
+    if (dot <= 0 || dot === base.length - 1) {
+      throw new ConfigError("invalid_execute_schema_filename", { file });
+    }
+    const action = `${base.slice(0, dot)}:${base.slice(dot + 1)}`;
+
+    let schema: object;
+    try {
+      schema = JSON.parse(fs.readFileSync(path.join(dir, file), "utf8"));
+    } catch {
+      throw new ConfigError("invalid_json_execute_schema", { file });
+    }
+
+    registry.register(action, schema);
+  }
+
+  return registry;
+}
@@ -0,0 +1,222 @@
+// src/stores.ts
+// Adapter-side record stores.
+// - MemoryRecordStore: process-local, lost on restart (dev / tests)
+// - FileRecordStore: append-only JSONL file, last write per id wins;
+//   update() holds a lock file, so claims are atomic across processes
+//   sharing the file (gateway replicas, the CLI)
+//
+// Stores hold adapter bookkeeping only. They never influence a decision:
+// every forward still requires a fresh Core PERMIT.
+
+import fs from "fs";
+import path from "path";
+import type { AdapterForwardingConfig, RecordStore } from "./types.js";
+import { ConfigError, FailClosedError } from "./errors.js";
+
+// A lock older than this was left by a crashed holder (holders keep it for one append)
+const LOCK_STALE_MS = 10000;
+const LOCK_TIMEOUT_MS = 5000;
+
+/**
+ * Exclusive lock file (O_EXCL create), shared by every process using the
+ * same data dir. Hold it only for a synchronous catch-up + append, never
+ * across I/O to others. Fails closed with timeoutReason.
+ */
+export async function acquireLockFile(lockPath: string, timeoutReason: string): Promise<() => void> {
+  const started = Date.now();
+
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, String(process.pid), { flag: "wx" });
+      return () => fs.rmSync(lockPath, { force: true });
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    }
+
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) fs.rmSync(lockPath, { force: true });
+    } catch {
+      // Released in between
+    }
+    if (Date.now() - started > LOCK_TIMEOUT_MS) {
+      throw new FailClosedError(timeoutReason, { path: lockPath });
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export class MemoryRecordStore<T> implements RecordStore<T> {
+  private records = new Map<string, T>();
+
+  async get(id: string): Promise<T | null> {
+    const v = this.records.get(id);
+    return v === undefined ? null : clone(v);
+  }
+
+  async put(id: string, value: T): Promise<void> {
+    this.records.set(id, clone(value));
+  }
+
+  async list(filter?: (value: T) => boolean): Promise<T[]> {
+    const out: T[] = [];
+    for (const v of this.records.values()) {
+      if (!filter || filter(v)) out.push(clone(v));
+    }
+    return out;
+  }
+
+  async update(id: string, fn: (current: T | null) => T | null): Promise<T | null> {
+    const current = this.records.get(id);
+    const next = fn(current === undefined ? null : clone(current));
+    if (next === null) return null;
+    this.records.set(id, clone(next));
+    return clone(next);
+  }
+}
+
+export class FileRecordStore<T> implements RecordStore<T> {
+  private records = new Map<string, T>();
+  private loadedBytes = 0;
+  // ids with appends still in flight: memory is newer than the file for them
+  private pending = new Map<string, number>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    if (!filePath) throw new ConfigError("missing_record_store_path");
+  }
+
+  /**
+   * Replays lines appended since the last read, so writes from other
+   * processes sharing the file (e.g. the CLI) become visible.
+   */
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const size = fs.statSync(this.filePath).size;
+    if (size <= this.loadedBytes) return;
+
+    const fd = fs.openSync(this.filePath, "r");
+    let chunk: Buffer;
+    try {
+      chunk = Buffer.alloc(size - this.loadedBytes);
+      fs.readSync(fd, chunk, 0, chunk.length, this.loadedBytes);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    // Only consume complete lines; a torn trailing write is re-read later
+    const lastNewline = chunk.lastIndexOf(0x0a);
+    if (lastNewline < 0) return;
+    this.loadedBytes += lastNewline + 1;
+
+    for (const line of chunk.subarray(0, lastNewline).toString("utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const row = JSON.parse(line);
+        if (row && typeof row.id === "string" && !this.pending.get(row.id)) {
+          this.records.set(row.id, row.value);
+        }
+      } catch {
+        // Corrupt line: skip it, later lines still apply
+      }
+    }
+  }
+
+  async get(id: string): Promise<T | null> {
+    this.load();
+    const v = this.records.get(id);
+    return v === undefined ? null : clone(v);
+  }
+
+  async put(id: string, value: T): Promise<void> {
+    this.load();
+    this.records.set(id, clone(value));
+
+    const line = JSON.stringify({ id, value }) + "\n";
+    this.pending.set(id, (this.pending.get(id) ?? 0) + 1);
+
+    const write = this.writes
+      .then(() => fs.promises.appendFile(this.filePath, line, "utf8"))
+      .finally(() => {
+        const n = (this.pending.get(id) ?? 1) - 1;
+        if (n > 0) this.pending.set(id, n);
+        else this.pending.delete(id);
+      });
+    // Keep the chain alive even if one write fails; surface the failure to this caller
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async list(filter?: (value: T) => boolean): Promise<T[]> {
+    this.load();
+    const out: T[] = [];
+    for (const v of this.records.values()) {
+      if (!filter || filter(v)) out.push(clone(v));
+    }
+    return out;
+  }
+
+  /**
+   * Exclusive lock file next to the store (O_EXCL create). Held only
+   * for a synchronous catch-up + append, never across I/O to others.
+   */
+  private async lock(): Promise<() => void> {
+    const lockPath = this.filePath + ".lock";
+    const started = Date.now();
+
+    for (;;) {
+      try {
+        fs.writeFileSync(lockPath, String(process.pid), { flag: "wx" });
+        return () => fs.rmSync(lockPath, { force: true });
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+      }
+
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS) fs.rmSync(lockPath, { force: true });
+      } catch {
+        // Released in between
+      }
+      if (Date.now() - started > LOCK_TIMEOUT_MS) {
+        throw new FailClosedError("record_store_lock_timeout", { path: lockPath });
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  }
+
+  async update(id: string, fn: (current: T | null) => T | null): Promise<T | null> {
+    // Our own queued appends land first, so the catch-up read sees them
+    await this.writes;
+
+    const unlock = await acquireLockFile(this.filePath + ".lock", "record_store_lock_timeout");
+    try {
+      this.load();
+      const current = this.records.get(id);
+      const next = fn(current === undefined ? null : clone(current));
+      if (next === null) return null;
+
+      fs.appendFileSync(this.filePath, JSON.stringify({ id, value: next }) + "\n", "utf8");
+      this.records.set(id, clone(next));
+      return clone(next);
+    } finally {
+      unlock();
+    }
+  }
+}
+
+/**
+ * File-backed when cfg.dataDir is set, in-memory otherwise.
+ */
+export function openRecordStore<T>(
+  cfg: AdapterForwardingConfig,
+  name: string
+): RecordStore<T> {
+  if (!cfg.dataDir) return new MemoryRecordStore<T>();
+
+  fs.mkdirSync(cfg.dataDir, { recursive: true });
+  return new FileRecordStore<T>(path.join(cfg.dataDir, `${name}.jsonl`));
+}
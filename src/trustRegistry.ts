@@ -0,0 +1,316 @@
+// src/trustRegistry.ts
+// Executor trust registry: which adapters may mint receipts, with which
+// keys, for which services, and when.
+//
+// Executor side:
+// - createTrustRegistry: static list → TrustRegistry
+// - TrustRegistryLoader: loads a registry file or a signed bundle URL,
+//   refreshes periodically, fails closed while nothing valid is loaded
+//   (and, for signed bundles, once the bundle's own issuedAt is older
+//   than maxStalenessMs, so publishers re-sign on a schedule)
+// - pass it to verifyExecutorRequest (or the SDK) as trustRegistry:
+//   the receipt's adapterId selects the keys, and unknown adapters or
+//   services the adapter is not allowed for are rejected
+//
+// Publisher side:
+// - signTrustBundle (scripts/sign-trust-bundle.ts): signs a bundle with
+//   a registry key that executors pin (bundlePublicKeyPem / bundleKeys)
+
+import crypto from "crypto";
+import fs from "fs";
+import { canonicalize } from "./canonical.js";
+import type {
+  ReceiptVerificationKey,
+  SignedTrustBundle,
+  TrustBundle,
+  TrustedAdapter,
+  TrustRegistry,
+  TrustResolution,
+} from "./types.js";
+import { ConfigError, asMessage } from "./errors.js";
+import { receiptKeyThumbprint, selectVerificationKey } from "./receiptKeys.js";
+
+function withinWindow(w: { notBefore?: string; notAfter?: string }, at: number): boolean {
+  // Negated so an unparseable bound (NaN) counts as outside the window
+  if (w.notBefore && !(at >= new Date(w.notBefore).getTime())) return false;
+  if (w.notAfter && !(at <= new Date(w.notAfter).getTime())) return false;
+  return true;
+}
+
+function optString(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() ? v : undefined;
+}
+
+// notBefore / notAfter: a typo must not silently mean "no bound"
+function optDate(v: unknown, details: Record<string, unknown>): string | undefined {
+  if (v === undefined || v === null) return undefined;
+  const s = optString(v);
+  if (!s || Number.isNaN(new Date(s).getTime())) throw new ConfigError("invalid_trusted_adapter_window", details);
+  return s;
+}
+
+/**
+ * Validates a registry document ({ issuedAt?, adapters }). Keys without
+ * a kid get their RFC 7638 thumbprint, matching the adapter default.
+ */
+export function parseTrustBundle(raw: unknown): TrustBundle {
+  const doc = raw as { issuedAt?: unknown; adapters?: unknown };
+  if (!doc || typeof doc !== "object" || !Array.isArray(doc.adapters)) {
+    throw new ConfigError("invalid_trust_registry");
+  }
+
+  const seen = new Set<string>();
+  const adapters = doc.adapters.map((a: any, index: number): TrustedAdapter => {
+    const adapterId = optString(a?.adapterId);
+    if (!adapterId) throw new ConfigError("invalid_trusted_adapter", { index });
+    if (seen.has(adapterId)) throw new ConfigError("duplicate_trusted_adapter", { adapterId });
+    seen.add(adapterId);
+
+    if (!Array.isArray(a.services) || !a.services.length || !a.services.every((s: unknown) => optString(s))) {
+      throw new ConfigError("invalid_trusted_adapter_services", { adapterId });
+    }
+    if (!Array.isArray(a.keys) || !a.keys.length) {
+      throw new ConfigError("invalid_trusted_adapter_keys", { adapterId });
+    }
+
+    const keys = a.keys.map((k: any): ReceiptVerificationKey => {
+      const publicKeyPem = optString(k?.publicKeyPem);
+      let thumbprint: string;
+      try {
+        thumbprint = receiptKeyThumbprint(publicKeyPem ?? "");
+      } catch {
+        throw new ConfigError("invalid_trusted_adapter_keys", { adapterId });
+      }
+      return {
+        kid: optString(k.kid) ?? thumbprint,
+        status: k.status === "retired" ? "retired" : "active",
+        publicKeyPem: publicKeyPem!,
+        notBefore: optDate(k.notBefore, { adapterId, field: "keys.notBefore" }),
+        notAfter: optDate(k.notAfter, { adapterId, field: "keys.notAfter" }),
+      };
+    });
+
+    return {
+      adapterId,
+      keys,
+      services: a.services.map(String),
+      notBefore: optDate(a.notBefore, { adapterId, field: "notBefore" }),
+      notAfter: optDate(a.notAfter, { adapterId, field: "notAfter" }),
+    };
+  });
+
+  return { issuedAt: optString(doc.issuedAt) ?? "", adapters };
+}
+
+export function createTrustRegistry(adapters: TrustedAdapter[]): TrustRegistry {
+  const byId = new Map(adapters.map((a) => [a.adapterId, a]));
+
+  return {
+    resolve(params): TrustResolution {
+      const adapter = byId.get(params.adapterId);
+      if (!adapter) return { ok: false, reason: "unknown_adapter" };
+
+      if (!adapter.services.includes("*") && !adapter.services.includes(params.service)) {
+        return { ok: false, reason: "adapter_service_not_allowed" };
+      }
+
+      // Unparseable issuedAt: not provably inside the window (fail closed)
+      const at = new Date(params.issuedAt).getTime();
+      if (Number.isNaN(at) || !withinWindow(adapter, at)) {
+        return { ok: false, reason: "adapter_not_valid_at_issue" };
+      }
+
+      return { ok: true, adapter };
+    },
+  };
+}
+
+export function trustBundleSigningMaterial(bundle: unknown): string {
+  return canonicalize(bundle);
+}
+
+export function signTrustBundle(
+  bundle: TrustBundle,
+  params: { privateKeyPem: string; kid?: string }
+): SignedTrustBundle {
+  const signature = crypto
+    .sign(null, Buffer.from(trustBundleSigningMaterial(bundle), "utf8"), params.privateKeyPem)
+    .toString("base64");
+  return params.kid ? { bundle, signature, kid: params.kid } : { bundle, signature };
+}
+
+/**
+ * Verifies the signature over the bundle exactly as received, then
+ * parses it. Signed bundles must carry a valid issuedAt: it orders
+ * bundles and bounds how long a replayed one stays usable.
+ */
+export function verifyTrustBundle(params: {
+  signed: SignedTrustBundle;
+  bundlePublicKeyPem?: string;
+  bundleKeys?: ReceiptVerificationKey[];
+}): { ok: boolean; reason?: string; bundle?: TrustBundle } {
+  const { signed } = params;
+
+  if (!signed?.bundle || typeof signed.signature !== "string") {
+    return { ok: false, reason: "invalid_trust_bundle" };
+  }
+
+  let publicKeyPem = params.bundlePublicKeyPem;
+  if (params.bundleKeys?.length) {
+    const k = selectVerificationKey(params.bundleKeys, {
+      kid: signed.kid,
+      issuedAt: (signed.bundle as { issuedAt?: string }).issuedAt,
+    });
+    if (!k.ok || !k.key) return { ok: false, reason: k.reason || "unknown_trust_bundle_kid" };
+    publicKeyPem = k.key.publicKeyPem;
+  }
+  if (!publicKeyPem) return { ok: false, reason: "missing_trust_bundle_public_key" };
+
+  let ok = false;
+  try {
+    ok = crypto.verify(
+      null,
+      Buffer.from(trustBundleSigningMaterial(signed.bundle), "utf8"),
+      publicKeyPem,
+      Buffer.from(signed.signature, "base64")
+    );
+  } catch {
+    ok = false;
+  }
+  if (!ok) return { ok: false, reason: "invalid_trust_bundle_signature" };
+
+  let bundle: TrustBundle;
+  try {
+    bundle = parseTrustBundle(signed.bundle);
+  } catch (e) {
+    return { ok: false, reason: asMessage(e) };
+  }
+  if (Number.isNaN(new Date(bundle.issuedAt).getTime())) {
+    return { ok: false, reason: "invalid_trust_bundle_issued_at" };
+  }
+
+  return { ok: true, bundle };
+}
+
+/**
+ * ------------------------------------------------------------
+ * Executor-side registry loader (file or signed URL bundle)
+ * ------------------------------------------------------------
+ * resolve() never does I/O. A failed refresh keeps the last good
+ * registry. URL bundles must be signed; a file may hold a plain
+ * registry document unless bundle keys are configured.
+ *
+ * Signed bundles (replay): a bundle must be strictly newer than the
+ * one loaded (re-reading the same signed bundle is a no-op) and not
+ * already stale; staleness runs from the bundle's issuedAt, so an old
+ * bundle served again cannot re-trust a removed adapter for long.
+ * ------------------------------------------------------------
+ */
+export class TrustRegistryLoader implements TrustRegistry {
+  private bundle: TrustBundle | null = null;
+  private signature: string | null = null;
+  private registry: TrustRegistry | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  lastError: string | null = null;
+
+  constructor(
+    private params: {
+      file?: string;
+      url?: string;
+      bundlePublicKeyPem?: string;
+      bundleKeys?: ReceiptVerificationKey[];
+      intervalMs?: number;
+      // Signed bundles only, from bundle.issuedAt (default 24 hours)
+      maxStalenessMs?: number;
+      timeoutMs?: number;
+      headers?: Record<string, string>;
+    }
+  ) {
+    if (!params.file === !params.url) throw new ConfigError("trust_registry_requires_file_or_url");
+    if (params.url && !params.bundlePublicKeyPem && !params.bundleKeys?.length) {
+      throw new ConfigError("missing_trust_bundle_public_key");
+    }
+  }
+
+  private async read(): Promise<unknown> {
+    if (this.params.file) return JSON.parse(await fs.promises.readFile(this.params.file, "utf8"));
+
+    const res = await fetch(this.params.url!, {
+      headers: { accept: "application/json", ...(this.params.headers || {}) },
+      signal: AbortSignal.timeout(this.params.timeoutMs ?? 5000),
+    });
+    if (!res.ok) throw new Error(`trust_bundle_http_${res.status}`);
+    return res.json();
+  }
+
+  private get signed(): boolean {
+    return !!(this.params.url || this.params.bundlePublicKeyPem || this.params.bundleKeys?.length);
+  }
+
+  private isStale(issuedAt: string): boolean {
+    return Date.now() - new Date(issuedAt).getTime() > (this.params.maxStalenessMs ?? 86400000);
+  }
+
+  async refresh(): Promise<boolean> {
+    try {
+      const raw = (await this.read()) as Partial<SignedTrustBundle>;
+
+      let bundle: TrustBundle;
+      if (this.signed) {
+        const signed = raw as SignedTrustBundle;
+        const v = verifyTrustBundle({
+          signed,
+          bundlePublicKeyPem: this.params.bundlePublicKeyPem,
+          bundleKeys: this.params.bundleKeys,
+        });
+        if (!v.ok || !v.bundle) throw new Error(v.reason || "invalid_trust_bundle");
+        bundle = v.bundle;
+
+        if (this.bundle && signed.signature === this.signature) {
+          // Same bundle as loaded: nothing to do, staleness keeps running
+          this.lastError = null;
+          return true;
+        }
+        if (this.bundle && new Date(bundle.issuedAt).getTime() <= new Date(this.bundle.issuedAt).getTime()) {
+          throw new Error("trust_bundle_not_newer");
+        }
+        if (this.isStale(bundle.issuedAt)) throw new Error("trust_bundle_stale");
+        this.signature = signed.signature;
+      } else {
+        bundle = parseTrustBundle(raw);
+      }
+
+      this.bundle = bundle;
+      this.registry = createTrustRegistry(bundle.adapters);
+      this.lastError = null;
+      return true;
+    } catch (e) {
+      this.lastError = asMessage(e);
+      return false;
+    }
+  }
+
+  start(): Promise<boolean> {
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.refresh(), this.params.intervalMs ?? 60000);
+      this.timer.unref?.();
+    }
+    return this.refresh();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  resolve(params: { adapterId: string; service: string; issuedAt: string }): TrustResolution {
+    if (!this.registry || !this.bundle) return { ok: false, reason: "trust_registry_unavailable" };
+
+    if (this.signed && this.isStale(this.bundle.issuedAt)) {
+      return { ok: false, reason: "trust_registry_stale" };
+    }
+
+    return this.registry.resolve(params);
+  }
+}
@@ -1,5 +1,7 @@
 // src/types.ts
 
+import type { ForwardingReason } from "./errors.js";
+
 // ------------------------------------------------------------
 // JSON primitives (for hashing/canonicalization inputs)
 // ------------------------------------------------------------
@@ -63,6 +65,9 @@ export interface CoreClientConfig {
   coreBaseUrl: string;
   timeoutMs: number;
   headers?: Record<string, string>;
+
+  // Core decision signing keys: keyId -> Ed25519 SPKI PEM
+  publicKeys: Record<string, string>;
 }
 
 export interface CoreAuthorizeResponse {
@@ -84,29 +89,161 @@ export interface CoreExecuteResponse {
 
   authorityKeyId?: string | null;
   error?: string;
+
+  // Ed25519 signature (base64) over coreDecisionSigningMaterial
+  signature?: string;
+  keyId?: string;
 }
 
 // ------------------------------------------------------------
 // Forwarding Targets
 // ------------------------------------------------------------
+export type ForwardMethod = "POST" | "PUT" | "PATCH";
+
+export interface ForwardOperation {
+  // Absolute URL (overrides the service url)
+  url?: string;
+  // Template appended to the service url; {service} and {operation} are substituted
+  path?: string;
+  method?: ForwardMethod;
+  // Extra static headers (cannot override adapter-controlled headers)
+  headers?: Record<string, string>;
+}
+
 export interface ForwardTarget {
   service: string;
   url: string;
   bearerToken?: string;
+
+  // Executor id bound into v2 receipts (default: the forward URL)
+  audience?: string;
+
+  // Operation allowlist; when declared, undeclared operations DENY (unknown_operation)
+  operations?: Record<string, ForwardOperation>;
+
+  // Abort the forward (request + response body) after this long
+  timeoutMs?: number;
+  // Reject executor responses larger than this
+  maxResponseBytes?: number;
+
+  // Extra attempts (same receipt, idempotency-key = receiptId) on timeout/unreachable/502-504
+  retries?: number;
+  retryBackoffMs?: number;
+
+  // Executor's Ed25519 key; verifies x-solace-attestation on its responses
+  executorPublicKeyPem?: string;
+}
+
+// ------------------------------------------------------------
+// Receipt signing keys (rotation)
+// ------------------------------------------------------------
+// active: may sign new receipts; retired: verification only
+export type ReceiptKeyStatus = "active" | "retired";
+
+export interface ReceiptVerificationKey {
+  kid: string;
+  status: ReceiptKeyStatus;
+  publicKeyPem: string;
+
+  // Receipts issued outside [notBefore, notAfter] do not verify with this key
+  notBefore?: string;
+  notAfter?: string;
+}
+
+export interface ReceiptSigningKey extends ReceiptVerificationKey {
+  // Absent for keys this adapter only publishes / verifies
+  privateKeyPem?: string;
+}
+
+// JWKS-style entry served at /v1/receipt-keys
+export interface ReceiptJwk {
+  kty: "OKP";
+  crv: "Ed25519";
+  x: string;
+  kid: string;
+  use: "sig";
+  alg: "EdDSA";
+  status: ReceiptKeyStatus;
+  notBefore?: string;
+  notAfter?: string;
+}
+
+/**
+ * Produces receipt signatures without exposing key material.
+ * Implemented in-process (PEM), by a local signing daemon client,
+ * or by any KMS / HSM backend.
+ */
+export interface ReceiptSigner {
+  // Key that signs at `now`; its kid is embedded in the signed material
+  currentKey(now?: Date): Promise<{ kid: string }>;
+  // Ed25519 signature (base64) over the UTF-8 material with key `kid`
+  sign(params: { kid: string; material: string }): Promise<string>;
 }
 
 export interface AdapterForwardingConfig {
   adapterId: string;
 
-  receiptPrivateKeyPem: string;
+  // Signing key in use at config load (absent with an out-of-process signer)
+  receiptPrivateKeyPem?: string;
   receiptPublicKeyPem: string;
+  // Full key set; the signing key is picked per receipt (see receiptKeys.ts)
+  receiptKeys?: ReceiptSigningKey[];
+  // Overrides the in-process PEM signer (signing daemon, KMS, ...)
+  receiptSigner?: ReceiptSigner;
+  // x-solace-receipt encoding: base64 JSON (default) or compact JWS
+  receiptFormat?: "json" | "jws";
+  // Minted receipt version (default 1; set 2 once every executor checks expectedAudience)
+  receiptVersion?: 1 | 2;
   receiptTtlSeconds?: number;
   clockSkewSeconds?: number;
 
+  // DENY when Core's executeHash/intentHash differ from local hashes (default true)
+  strictCoreHashes?: boolean;
+
   core: CoreClientConfig;
 
   // Prefix-routed services only
   targets: Record<string, ForwardTarget>;
+
+  // Pending approvals opened on Core ESCALATE
+  approvalTtlSeconds?: number;
+
+  // Directory for file-backed adapter stores (in-memory if unset)
+  dataDir?: string;
+
+  // Max envelopes per /v1/gate/batch request
+  batchMaxItems?: number;
+
+  // How long a dead-lettered forward may be re-driven before it is abandoned
+  deadLetterTtlSeconds?: number;
+
+  // How long a revocation stays in the feed (should exceed receipt TTL + skew)
+  revocationRetentionSeconds?: number;
+
+  // Per-action JSON Schemas for execute payloads (validated before Core)
+  executeSchemas?: ExecuteSchemaValidator;
+  // DENY actions without a registered schema (execute_schema_missing)
+  requireExecuteSchemas?: boolean;
+}
+
+// ------------------------------------------------------------
+// Execute payload schemas
+// ------------------------------------------------------------
+export interface ExecuteSchemaValidationError {
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+export interface ExecuteSchemaResult {
+  ok: boolean;
+  reason?: string;
+  errors?: ExecuteSchemaValidationError[];
+}
+
+export interface ExecuteSchemaValidator {
+  has(action: string): boolean;
+  validate(action: string, execute: unknown): ExecuteSchemaResult;
 }
 
 // ------------------------------------------------------------
@@ -117,6 +254,13 @@ export interface Receipt {
 
   receiptId: string;
 
+  // Receipt signing key id (selects the verification key)
+  kid?: string;
+
+  // "jws": signed over the JWS signing input and sent as compact JWS
+  // (see receiptJws.ts); absent: signed over canonicalize(receipt)
+  signatureFormat?: "jws";
+
   adapterId: string;
   service: string;
 
@@ -133,12 +277,36 @@ export interface Receipt {
   coreExpiresAt?: string;
   coreTime?: string;
 
+  // Verified Core decision signature (lets executors check the full chain)
+  coreSignature?: string;
+  coreKeyId?: string;
+
+  // Shared by every receipt minted for one /v1/gate/batch request
+  batchId?: string;
+
+  // v2 bindings (absent on v1 receipts)
+  operation?: string;
+  organizationId?: string | null;
+  // Executor id, or the forward URL when the target declares none
+  audience?: string;
+  requestId?: string | null;
+  nonce?: string;
+
   issuedAt: string;
   expiresAt: string;
 
   signature: string;
 }
 
+/**
+ * Dry-run receipt: what the adapter WOULD have minted.
+ * Unsigned and flagged; verifyReceipt always rejects it.
+ */
+export type SimulatedReceipt = Omit<Receipt, "signature"> & {
+  simulated: true;
+  signature: null;
+};
+
 // ------------------------------------------------------------
 // Gate Result
 // ------------------------------------------------------------
@@ -150,7 +318,500 @@ export interface AdapterGateResult {
   forwardStatus?: number;
   forwardBody?: unknown;
 
+  // "delivered": executor responded. "unknown": Core permitted, but the
+  // forward failed in a way that leaves the execution outcome unknown.
+  forwardOutcome?: "delivered" | "unknown";
+  forwardError?: ForwardingReason;
+  forwardAttempts?: number;
+
+  // Retry of a receipt that was already delivered: earlier outcome, not re-forwarded
+  replayed?: boolean;
+
+  // Delivered forwards only. "attested": the executor's attestation verified
+  // against the target's executorPublicKeyPem; "unverified": missing, invalid
+  // or no key registered (executionReason says which). Still PERMIT either way.
+  // executionAttestation is only present when attested.
+  execution?: "attested" | "unverified";
+  executionReason?: string;
+  executionAttestation?: ExecutionAttestation;
+
   executeHash?: string;
   intentHash?: string;
   authorityKeyId?: string | null;
+
+  // Set when Core returned ESCALATE and a pending approval was opened
+  approvalId?: string;
+  approvalExpiresAt?: string;
+
+  // execute_schema_invalid only
+  validationErrors?: ExecuteSchemaValidationError[];
+
+  // Dry run only: never forwarded, receipt unusable by executors
+  simulated?: boolean;
+  simulatedReceipt?: SimulatedReceipt;
+}
+
+export interface AdapterBatchResult {
+  batchId: string;
+  decision: "PERMIT" | "DENY";
+  reason: string;
+  items: AdapterGateResult[];
+}
+
+// ------------------------------------------------------------
+// Adapter stores
+// ------------------------------------------------------------
+/**
+ * Minimal keyed record store used for adapter-side state.
+ * Implementations: MemoryRecordStore, FileRecordStore (src/stores.ts).
+ */
+export interface RecordStore<T> {
+  get(id: string): Promise<T | null>;
+  put(id: string, value: T): Promise<void>;
+  list(filter?: (value: T) => boolean): Promise<T[]>;
+  /**
+   * Atomic read-modify-write (compare-and-set): fn sees the current
+   * value (null if absent) and returns the new one, or null to leave it
+   * unchanged. Resolves to the written value, or null when fn declined.
+   * Use it for state transitions (claims); put() is last-write-wins.
+   */
+  update(id: string, fn: (current: T | null) => T | null): Promise<T | null>;
+}
+
+// ------------------------------------------------------------
+// Forward records (one per receipt)
+// ------------------------------------------------------------
+export interface ForwardAttempt {
+  attempt: number;
+  at: string;
+  status?: number;
+  error?: ForwardingReason;
+}
+
+export interface ForwardRecord {
+  receiptId: string;
+
+  organizationId?: string | null;
+  requestId?: string | null;
+
+  service: string;
+  operation: string;
+
+  receipt: Receipt;
+  // Never the acceptance: it stays between client, adapter and Core
+  envelope: Pick<GateRequestEnvelope, "intent" | "execute">;
+
+  attempts: ForwardAttempt[];
+  outcome: "pending" | "delivered" | "unknown";
+  forwardStatus?: number;
+  forwardBody?: unknown;
+  forwardError?: ForwardingReason;
+  execution?: AdapterGateResult["execution"];
+  executionReason?: string;
+  executionAttestation?: ExecutionAttestation;
+
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ------------------------------------------------------------
+// Minted receipts (lookup / support)
+// ------------------------------------------------------------
+export interface ExecutorResponseSummary {
+  status: number;
+  // sha256 of the canonical response body (null when there was none)
+  bodyHash: string | null;
+  // First characters of the JSON body, for support staff
+  bodyPreview?: string;
+}
+
+export interface ReceiptRecord {
+  receiptId: string;
+
+  organizationId?: string | null;
+  requestId?: string | null;
+
+  service: string;
+  operation: string;
+  executeHash: string;
+  intentHash: string;
+
+  receipt: Receipt;
+
+  core: {
+    decision: CoreExecuteResponse["decision"];
+    reason?: string | null;
+    authorityKeyId?: string | null;
+    issuedAt?: string | null;
+    expiresAt?: string | null;
+    time?: string | null;
+    keyId?: string | null;
+    signed: boolean;
+  };
+
+  forward: {
+    // failed: never sent (adapter-side error before the executor was reached)
+    outcome: "pending" | "delivered" | "unknown" | "failed";
+    attempts: number;
+    error?: string;
+    executor?: ExecutorResponseSummary;
+    execution?: AdapterGateResult["execution"];
+    executionAttestation?: ExecutionAttestation;
+  };
+
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReceiptStore = RecordStore<ReceiptRecord>;
+
+// ------------------------------------------------------------
+// Revocations (recall issued, not yet executed receipts)
+// ------------------------------------------------------------
+export type RevocationScope = "receiptId" | "actorId" | "authorityKeyId" | "service";
+
+export interface Revocation {
+  id: string;
+  scope: RevocationScope;
+  value: string;
+  reason?: string | null;
+  revokedBy: string;
+
+  // Scope-wide revocations cover receipts issued at or before this instant
+  revokedAt: string;
+  // Dropped from the feed once no covered receipt can still be valid
+  expiresAt: string;
+}
+
+// What executors need to match receipts; reason / revokedBy stay on the adapter
+export type RevocationFeedEntry = Pick<Revocation, "id" | "scope" | "value" | "revokedAt" | "expiresAt">;
+
+export interface RevocationFeed {
+  adapterId: string;
+  // Executors only accept strictly newer feeds and measure staleness from here
+  issuedAt: string;
+  revocations: RevocationFeedEntry[];
+}
+
+export interface SignedRevocationFeed {
+  feed: RevocationFeed;
+  // Ed25519 (base64) over canonicalize(feed), receipt signing key
+  signature: string;
+  kid?: string;
+}
+
+export interface RevocationCheckResult {
+  revoked: boolean;
+  reason?: string;
+  revocationId?: string;
+}
+
+/**
+ * Synchronous by design: executors consult it on every request.
+ * Back remote sources with a cache (see RevocationFeedPoller).
+ */
+export type RevocationChecker = (receipt: Receipt) => RevocationCheckResult;
+
+// ------------------------------------------------------------
+// Executor trust registry (adapterId → keys / services)
+// ------------------------------------------------------------
+export interface TrustedAdapter {
+  adapterId: string;
+  // Receipt keys, selected by receipt.kid (key windows apply)
+  keys: ReceiptVerificationKey[];
+  // Services this adapter may mint receipts for ("*" = any)
+  services: string[];
+  // Receipts issued outside [notBefore, notAfter] are rejected
+  notBefore?: string;
+  notAfter?: string;
 }
+
+export interface TrustBundle {
+  // Required (ISO time) in signed bundles: orders them and dates staleness.
+  // "" for a plain registry file without one
+  issuedAt: string;
+  adapters: TrustedAdapter[];
+}
+
+// Served by URL; signed over canonicalize(bundle) with a registry key
+export interface SignedTrustBundle {
+  bundle: TrustBundle;
+  signature: string;
+  kid?: string;
+}
+
+export interface TrustResolution {
+  ok: boolean;
+  reason?: string;
+  adapter?: TrustedAdapter;
+}
+
+export interface TrustRegistry {
+  resolve(params: { adapterId: string; service: string; issuedAt: string }): TrustResolution;
+}
+
+// ------------------------------------------------------------
+// Executor-side verification result
+// ------------------------------------------------------------
+/**
+ * What an executor may act on after verifyExecutorRequest succeeds.
+ * Every field comes from the signed receipt and has been checked
+ * against the request body (intent fields only when intentVerified).
+ */
+export interface VerifiedExecution {
+  receipt: Receipt;
+  receiptId: string;
+  adapterId: string;
+  service: string;
+  // v2 bindings (null on v1 receipts)
+  operation: string | null;
+  organizationId: string | null;
+  audience: string | null;
+  requestId: string | null;
+
+  actorId: string;
+  intent: string;
+  executeHash: string;
+  intentHash: string;
+  // body.intent was recomputed and matched receipt.intentHash / actorId / intent
+  intentVerified: boolean;
+
+  format: "json" | "jws";
+  kid?: string;
+}
+
+export interface ExecutorVerificationResult {
+  ok: boolean;
+  reason?: string;
+  receipt?: Receipt;
+  executeHash?: string;
+  intentHash?: string;
+  validationErrors?: ExecuteSchemaValidationError[];
+  // Present only when ok
+  verified?: VerifiedExecution;
+}
+
+// ------------------------------------------------------------
+// Executor SDK (requireSolaceReceipt / withSolaceReceipt)
+// ------------------------------------------------------------
+// Response of the first execution, returned again to retried requests
+export interface IdempotencyResult {
+  status: number;
+  body: unknown;
+  // The exact response bytes (utf8) and content-type, replayed verbatim
+  bodyText?: string;
+  contentType?: string;
+  completedAt: string;
+  // x-solace-attestation sent with it, if any; replays send it unchanged
+  attestation?: string;
+}
+
+export type IdempotencyClaim =
+  | { state: "claimed" }
+  // Another request holds the claim and has not finished (or crashed mid-way)
+  | { state: "pending"; key: string }
+  | { state: "completed"; key: string; result: IdempotencyResult };
+
+/**
+ * Executor-side replay guard. A request's keys (receiptId and/or
+ * executeHash) are claimed atomically: either all are claimed or
+ * none is, and exactly one concurrent caller gets "claimed".
+ * Records are kept until expiresAt; expired ones count as absent.
+ */
+export interface IdempotencyStore {
+  claim(keys: string[], expiresAt: string): Promise<IdempotencyClaim>;
+  complete(keys: string[], result: IdempotencyResult): Promise<void>;
+  // Releases a pending claim so a retry can execute again
+  fail(keys: string[]): Promise<void>;
+  // Deletes expired records; returns how many were removed
+  cleanup(now?: Date): Promise<number>;
+}
+
+// ------------------------------------------------------------
+// Execution attestations (executor → adapter)
+// ------------------------------------------------------------
+/**
+ * Signed by the executor's own Ed25519 key over the canonical JSON of
+ * every other field. Sent base64(JSON) in x-solace-attestation.
+ */
+export interface ExecutionAttestation {
+  v: 1;
+  receiptId: string;
+  executeHash: string;
+  // "succeeded": answered 2xx; "failed": answered with any other status
+  status: "succeeded" | "failed";
+  // sha256 of the canonical JSON response body (of the raw text when
+  // it is not JSON); null for an empty body
+  resultHash: string | null;
+  completedAt: string;
+  kid?: string;
+  signature: string;
+}
+
+export interface ExecutorDenyBody {
+  decision: "DENY";
+  reason: string;
+  receiptId?: string;
+  validationErrors?: ExecuteSchemaValidationError[];
+}
+
+// ------------------------------------------------------------
+// Dead letters (failed / timed-out forwards after PERMIT)
+// ------------------------------------------------------------
+// "redriving": claimed by one re-drive (gateway or CLI) until it records the outcome
+export type DeadLetterStatus = "open" | "redriving" | "redriven" | "resolved" | "abandoned";
+
+export interface DeadLetterRedrive {
+  at: string;
+  by: string;
+  decision: AdapterGateResult["decision"];
+  reason?: string;
+  receiptId?: string;
+  forwardStatus?: number;
+  forwardOutcome?: AdapterGateResult["forwardOutcome"];
+}
+
+export interface DeadLetterEntry {
+  id: string;
+  status: DeadLetterStatus;
+
+  organizationId?: string | null;
+  requestId?: string | null;
+
+  receiptId: string;
+  receipt: Receipt;
+
+  // sha256(canonicalize({ intent, execute }))
+  envelopeHash: string;
+  // Kept whole so a re-drive can reuse a still-valid acceptance
+  envelope: GateRequestEnvelope;
+
+  service: string;
+  operation: string;
+  target: string;
+
+  error: ForwardingReason | "executor_http_error";
+  forwardStatus?: number;
+
+  createdAt: string;
+  expiresAt: string;
+  updatedAt: string;
+
+  redrives: DeadLetterRedrive[];
+}
+
+// ------------------------------------------------------------
+// Decision log (hash-chained, append-only)
+// ------------------------------------------------------------
+export interface DecisionLogRecord {
+  decision: AdapterGateResult["decision"];
+  reason?: string | null;
+
+  requestId?: string | null;
+  organizationId?: string | null;
+
+  service?: string | null;
+  operation?: string | null;
+
+  executeHash?: string | null;
+  intentHash?: string | null;
+  receiptId?: string | null;
+  batchId?: string | null;
+  approvalId?: string | null;
+
+  forwardStatus?: number | null;
+  forwardOutcome?: AdapterGateResult["forwardOutcome"] | null;
+  execution?: AdapterGateResult["execution"] | null;
+  executionAttestation?: ExecutionAttestation | null;
+  dryRun?: boolean;
+}
+
+export interface DecisionLogEntry extends DecisionLogRecord {
+  seq: number;
+  time: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface DecisionLog {
+  append(record: DecisionLogRecord): Promise<DecisionLogEntry>;
+  readAll(): Promise<DecisionLogEntry[]>;
+}
+
+// ------------------------------------------------------------
+// Pending Approvals (Core ESCALATE)
+// ------------------------------------------------------------
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "expired";
+
+export interface PendingApproval {
+  approvalId: string;
+  status: ApprovalStatus;
+
+  organizationId?: string | null;
+  requestId?: string | null;
+
+  service: string;
+  action: string;
+
+  envelope: GateRequestEnvelope;
+  executeHash: string;
+  intentHash: string;
+  coreReason?: string;
+
+  createdAt: string;
+  expiresAt: string;
+
+  decidedAt?: string;
+  decidedBy?: string;
+  rejectReason?: string;
+
+  // Outcome of the re-run gate after approval
+  result?: AdapterGateResult;
+}
+
+// ------------------------------------------------------------
+// Gate Options
+// ------------------------------------------------------------
+export interface GateOptions {
+  requestId?: string;
+  organizationId?: string;
+
+  // When set, ESCALATE opens a pending approval instead of failing closed
+  approvals?: RecordStore<PendingApproval>;
+
+  // Route + hash + Core decision only; no receipt signing, no forwarding
+  dryRun?: boolean;
+
+  // Durable per-receipt forward attempts (enables /v1/gate/retry)
+  forwards?: RecordStore<ForwardRecord>;
+
+  // Failed / outcome-unknown forwards are recorded here for re-drive
+  deadLetters?: RecordStore<DeadLetterEntry>;
+
+  // Every gate outcome is appended here
+  decisionLog?: DecisionLog;
+
+  // Minted receipts are persisted here (with their forward status)
+  receipts?: ReceiptStore;
+}
+
+/**
+ * PERMIT outcome of the decision phase, ready for receipt minting.
+ */
+export interface GatePlan {
+  service: string;
+  operation: string;
+  action: string;
+
+  actorId: string;
+  intentName: string;
+
+  executeHash: string;
+  intentHash: string;
+
+  core: CoreExecuteResponse;
+}
+
+export type GateDecision =
+  | { permitted: true; plan: GatePlan }
+  | { permitted: false; result: AdapterGateResult };
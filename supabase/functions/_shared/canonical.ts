@@ -1,25 +1,94 @@
 // supabase/functions/_shared/canonical.ts
-// Deterministic canonicalization + SHA256 (ASCII-safe).
+// RFC 8785 JSON Canonicalization Scheme (JCS) + SHA256 (WebCrypto).
+// Deno copy of src/canonical.ts: both must produce identical bytes for
+// every case in canonical-vectors.json (scripts/check-canonical-vectors*.ts).
+//
+// Non-JSON input (NaN / Infinity, BigInt, functions, symbols, undefined
+// inside arrays, Dates and other non-plain objects, cycles, lone
+// surrogates) throws CanonicalizationError; undefined object properties
+// are omitted.
 
-export function stableSort(value: unknown): unknown {
-  if (value === null || value === undefined) return value;
+export type CanonicalizationReason =
+  | "non_finite_number"
+  | "unsupported_type"
+  | "undefined_in_array"
+  | "non_plain_object"
+  | "circular_reference"
+  | "lone_surrogate";
 
-  if (Array.isArray(value)) return value.map(stableSort);
+export class CanonicalizationError extends Error {
+  reason: CanonicalizationReason;
+  path: string;
+  constructor(reason: CanonicalizationReason, path: string) {
+    super(`${reason} :: ${JSON.stringify({ path })}`);
+    this.name = "CanonicalizationError";
+    this.reason = reason;
+    this.path = path;
+  }
+}
+
+const LONE_SURROGATE = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+
+function serializeString(value: string, path: string): string {
+  if (LONE_SURROGATE.test(value)) throw new CanonicalizationError("lone_surrogate", path);
+  return JSON.stringify(value);
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function serialize(value: unknown, path: string, seen: Set<object>): string {
+  if (value === null) return "null";
 
-  if (typeof value === "object") {
-    const obj = value as Record<string, unknown>;
-    const out: Record<string, unknown> = {};
-    for (const k of Object.keys(obj).sort()) {
-      out[k] = stableSort(obj[k]);
+  switch (typeof value) {
+    case "boolean":
+      return value ? "true" : "false";
+    case "number":
+      if (!Number.isFinite(value)) throw new CanonicalizationError("non_finite_number", path);
+      return String(value);
+    case "string":
+      return serializeString(value, path);
+    case "object":
+      break;
+    default:
+      throw new CanonicalizationError("unsupported_type", path);
+  }
+
+  const obj = value as object;
+  if (seen.has(obj)) throw new CanonicalizationError("circular_reference", path);
+  seen.add(obj);
+
+  let out: string;
+  if (Array.isArray(obj)) {
+    out =
+      "[" +
+      obj
+        .map((item, i) => {
+          if (item === undefined) throw new CanonicalizationError("undefined_in_array", `${path}/${i}`);
+          return serialize(item, `${path}/${i}`, seen);
+        })
+        .join(",") +
+      "]";
+  } else {
+    if (!isPlainObject(obj)) throw new CanonicalizationError("non_plain_object", path);
+
+    const record = obj as Record<string, unknown>;
+    const parts: string[] = [];
+    for (const k of Object.keys(record).sort()) {
+      if (record[k] === undefined) continue;
+      parts.push(`${serializeString(k, path)}:${serialize(record[k], `${path}/${k}`, seen)}`);
     }
-    return out;
+    out = "{" + parts.join(",") + "}";
   }
 
-  return value;
+  seen.delete(obj);
+  return out;
 }
 
 export function canonicalize(obj: unknown): string {
-  return JSON.stringify(stableSort(obj));
+  return serialize(obj, "", new Set());
 }
 
 export async function sha256Hex(input: string): Promise<string> {
@@ -36,3 +105,16 @@ export async function computeExecuteHash(execute: unknown): Promise<string> {
 export async function computeIntentHash(intent: unknown): Promise<string> {
   return sha256Hex(canonicalize(intent));
 }
+
+// Same as tryPayloadHash in src/canonical.ts: null for CanonicalizationError
+export async function tryPayloadHash(
+  compute: (value: unknown) => Promise<string>,
+  value: unknown
+): Promise<string | null> {
+  try {
+    return await compute(value);
+  } catch (e) {
+    if (e instanceof CanonicalizationError) return null;
+    throw e;
+  }
+}
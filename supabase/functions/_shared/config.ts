@@ -0,0 +1,111 @@
+// supabase/functions/_shared/config.ts
+// Adapter configuration from environment variables. Same names and
+// defaults as the Node gateway (src/config.ts) for everything the
+// Supabase adapter supports. PEMs come from *_PEM variables only.
+
+import { parseTargets, type ForwardTarget } from "./routing.ts";
+
+export type GateConfig = {
+  adapterId: string;
+  receiptPrivateKeyPem: string;
+  receiptTtlSeconds: number;
+  receiptVersion: 1 | 2;
+  receiptFormat: "json" | "jws";
+  clockSkewSeconds: number;
+  strictCoreHashes: boolean;
+  core: {
+    coreBaseUrl: string;
+    timeoutMs: number;
+    headers: Record<string, string>;
+    publicKeys: Record<string, string>;
+  };
+  targets: Record<string, ForwardTarget>;
+};
+
+export type EnvGetter = (name: string) => string | undefined;
+
+function parseJsonEnv(get: EnvGetter, name: string): any {
+  const raw = get(name);
+  if (!raw || !raw.trim()) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`invalid_json_env_${name}`);
+  }
+}
+
+export function loadGateConfig(get: EnvGetter): GateConfig {
+  const opt = (name: string): string | undefined => {
+    const v = get(name);
+    return v && v.trim() ? v : undefined;
+  };
+  const must = (name: string): string => {
+    const v = opt(name);
+    if (!v) throw new Error(`missing_env_${name}`);
+    return v;
+  };
+  const int = (name: string, fallback: number): number => {
+    const n = Number(opt(name));
+    return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+  };
+  const bool = (name: string, fallback: boolean): boolean => {
+    const v = opt(name)?.trim().toLowerCase();
+    if (v === undefined) return fallback;
+    if (["1", "true", "yes", "on"].includes(v)) return true;
+    if (["0", "false", "no", "off"].includes(v)) return false;
+    return fallback;
+  };
+
+  // The old action → service table is replaced by service:operation actions
+  if (opt("SOLACE_ADAPTER_ACTION_TO_SERVICE_JSON")) {
+    throw new Error("unsupported_env_SOLACE_ADAPTER_ACTION_TO_SERVICE_JSON");
+  }
+
+  const receiptFormat = (opt("SOLACE_ADAPTER_RECEIPT_FORMAT") || "json").trim().toLowerCase();
+  if (receiptFormat !== "json" && receiptFormat !== "jws") {
+    throw new Error("invalid_env_SOLACE_ADAPTER_RECEIPT_FORMAT");
+  }
+
+  const receiptVersion = (opt("SOLACE_ADAPTER_RECEIPT_VERSION") || "1").trim();
+  if (receiptVersion !== "1" && receiptVersion !== "2") {
+    throw new Error("invalid_env_SOLACE_ADAPTER_RECEIPT_VERSION");
+  }
+
+  const corePublicKeys: Record<string, string> =
+    parseJsonEnv(get, "SOLACE_CORE_PUBLIC_KEYS_JSON") ??
+    (opt("SOLACE_CORE_PUBLIC_KEY_PEM")
+      ? { [opt("SOLACE_CORE_PUBLIC_KEY_ID") || "default"]: must("SOLACE_CORE_PUBLIC_KEY_PEM") }
+      : {});
+  if (!Object.keys(corePublicKeys).length) throw new Error("missing_env_SOLACE_CORE_PUBLIC_KEY_PEM");
+
+  const coreHeaders: Record<string, string> = {};
+  const rawHeaders = parseJsonEnv(get, "SOLACE_CORE_HEADERS_JSON") ?? {};
+  for (const k of Object.keys(rawHeaders)) {
+    if (typeof rawHeaders[k] === "string") coreHeaders[k] = rawHeaders[k];
+  }
+
+  const targetsJson = parseJsonEnv(get, "SOLACE_ADAPTER_TARGETS_JSON");
+  if (targetsJson === undefined) throw new Error("missing_env_SOLACE_ADAPTER_TARGETS_JSON");
+
+  return {
+    adapterId: must("SOLACE_ADAPTER_ID"),
+    receiptPrivateKeyPem: must("SOLACE_ADAPTER_RECEIPT_PRIVATE_KEY_PEM"),
+    receiptTtlSeconds: int("SOLACE_ADAPTER_RECEIPT_TTL_SECONDS", 30),
+    receiptVersion: Number(receiptVersion) as 1 | 2,
+    receiptFormat,
+    clockSkewSeconds: int("SOLACE_ADAPTER_CLOCK_SKEW_SECONDS", 10),
+    strictCoreHashes: bool("SOLACE_ADAPTER_STRICT_CORE_HASHES", true),
+    core: {
+      coreBaseUrl: must("SOLACE_CORE_BASE_URL"),
+      timeoutMs: int("SOLACE_CORE_TIMEOUT_MS", 8000),
+      headers: coreHeaders,
+      publicKeys: corePublicKeys,
+    },
+    targets: parseTargets(targetsJson, {
+      timeoutMs: int("SOLACE_ADAPTER_FORWARD_TIMEOUT_MS", 10000),
+      maxResponseBytes: int("SOLACE_ADAPTER_FORWARD_MAX_RESPONSE_BYTES", 1024 * 1024),
+      // Legacy shared secret: sent as the bearer token unless a target sets its own
+      bearerToken: opt("SOLACE_EXECUTOR_INTERNAL_SECRET"),
+    }),
+  };
+}
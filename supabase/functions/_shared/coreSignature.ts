@@ -0,0 +1,61 @@
+// supabase/functions/_shared/coreSignature.ts
+// Core decision signatures (Ed25519). Same material and key selection
+// as src/coreSignature.ts: the adapter verifies before acting on ANY
+// decision and embeds the signature in the receipt.
+
+import { canonicalize } from "./canonical.ts";
+import { verifyEd25519 } from "./ed25519.ts";
+
+export type CoreSignedDecision = {
+  decision: string;
+  executeHash?: string;
+  intentHash?: string;
+  authorityKeyId?: string | null;
+  issuedAt?: string;
+  expiresAt?: string;
+  time?: string;
+  keyId?: string;
+};
+
+export function coreDecisionSigningMaterial(d: CoreSignedDecision): string {
+  return canonicalize({
+    decision: d.decision,
+    executeHash: d.executeHash,
+    intentHash: d.intentHash,
+    authorityKeyId: d.authorityKeyId ?? null,
+    issuedAt: d.issuedAt,
+    expiresAt: d.expiresAt,
+    time: d.time,
+    keyId: d.keyId,
+  });
+}
+
+function selectCoreKey(publicKeys: Record<string, string>, keyId?: string): string | null {
+  const ids = Object.keys(publicKeys || {});
+  if (keyId && publicKeys[keyId]) return publicKeys[keyId];
+
+  // Single unnamed key (SOLACE_CORE_PUBLIC_KEY_PEM) verifies any keyId
+  if (ids.length === 1 && ids[0] === "default") return publicKeys.default;
+
+  return null;
+}
+
+export async function verifyCoreDecision(params: {
+  decision: CoreSignedDecision;
+  signature?: string;
+  publicKeys: Record<string, string>;
+}): Promise<{ ok: boolean; reason?: string }> {
+  const { decision, signature, publicKeys } = params;
+
+  if (!publicKeys || Object.keys(publicKeys).length === 0) {
+    return { ok: false, reason: "missing_core_public_keys" };
+  }
+  if (!signature) return { ok: false, reason: "core_signature_missing" };
+
+  const pem = selectCoreKey(publicKeys, decision.keyId);
+  if (!pem) return { ok: false, reason: "core_signature_key_unknown" };
+
+  const sigOk = await verifyEd25519(pem, coreDecisionSigningMaterial(decision), signature);
+  if (!sigOk) return { ok: false, reason: "core_signature_invalid" };
+  return { ok: true };
+}
@@ -0,0 +1,102 @@
+// supabase/functions/_shared/ed25519.ts
+// Ed25519 (WebCrypto) helpers shared by receipts and Core signatures.
+
+import { canonicalize } from "./canonical.ts";
+
+export function b64ToBytes(b64: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(b64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+export function bytesToB64(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin);
+}
+
+export function b64ToB64url(b64: string): string {
+  return b64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function b64urlToB64(b64url: string): string {
+  const b64 = b64url.replace(/-/g, "+").replace(/_/g, "/");
+  return b64 + "=".repeat((4 - (b64.length % 4)) % 4);
+}
+
+export function utf8ToB64url(text: string): string {
+  return b64ToB64url(bytesToB64(new TextEncoder().encode(text)));
+}
+
+export function b64urlToUtf8(b64url: string): string {
+  return new TextDecoder().decode(b64ToBytes(b64urlToB64(b64url)));
+}
+
+function pemBody(pem: string, label: string): Uint8Array<ArrayBuffer> {
+  const clean = pem
+    .replace(new RegExp(`-----BEGIN ${label}-----`, "g"), "")
+    .replace(new RegExp(`-----END ${label}-----`, "g"), "")
+    .replace(/\s+/g, "");
+  return b64ToBytes(clean);
+}
+
+export function importEd25519PrivateKeyPem(pem: string, extractable = false): Promise<CryptoKey> {
+  // Expect PKCS8 PEM for Ed25519
+  return crypto.subtle.importKey(
+    "pkcs8",
+    pemBody(pem, "PRIVATE KEY"),
+    { name: "Ed25519" } as any,
+    extractable,
+    ["sign"]
+  );
+}
+
+export function importEd25519PublicKeyPem(pem: string): Promise<CryptoKey> {
+  // Expect SPKI PEM for Ed25519
+  return crypto.subtle.importKey(
+    "spki",
+    pemBody(pem, "PUBLIC KEY"),
+    { name: "Ed25519" } as any,
+    true,
+    ["verify"]
+  );
+}
+
+export async function signEd25519(privateKeyPem: string, material: string): Promise<string> {
+  const key = await importEd25519PrivateKeyPem(privateKeyPem);
+  const sig = await crypto.subtle.sign({ name: "Ed25519" } as any, key, new TextEncoder().encode(material));
+  return bytesToB64(new Uint8Array(sig));
+}
+
+export async function verifyEd25519(publicKeyPem: string, material: string, signatureB64: string): Promise<boolean> {
+  try {
+    const key = await importEd25519PublicKeyPem(publicKeyPem);
+    return await crypto.subtle.verify(
+      { name: "Ed25519" } as any,
+      key,
+      b64ToBytes(signatureB64),
+      new TextEncoder().encode(material)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * RFC 7638 JWK thumbprint, same value as receiptKeyThumbprint in
+ * src/receiptKeys.ts. Accepts either half of the key pair.
+ */
+export async function ed25519Thumbprint(pem: string): Promise<string> {
+  const key = pem.includes("PRIVATE KEY")
+    ? await importEd25519PrivateKeyPem(pem, true)
+    : await importEd25519PublicKeyPem(pem);
+  const jwk = (await crypto.subtle.exportKey("jwk", key)) as { crv?: string; kty?: string; x?: string };
+  if (jwk.kty !== "OKP" || jwk.crv !== "Ed25519" || !jwk.x) throw new Error("receipt_key_not_ed25519");
+
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(canonicalize({ crv: jwk.crv, kty: jwk.kty, x: jwk.x }))
+  );
+  return b64ToB64url(bytesToB64(new Uint8Array(digest)));
+}
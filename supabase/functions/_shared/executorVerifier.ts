@@ -0,0 +1,104 @@
+// supabase/functions/_shared/executorVerifier.ts
+// Executor-side verification, same checks and reasons as
+// src/executorVerifier.ts:
+//   - decode x-solace-receipt (base64 JSON or compact JWS)
+//   - verify signature + TTL (+ v1 migration window)
+//   - receipt.service, v2 audience / operation / tenant bindings
+//   - executeHash, and intentHash / actorId / intent when body.intent is given
+
+import { computeExecuteHash, computeIntentHash, tryPayloadHash } from "./canonical.ts";
+import {
+  decodeReceiptHeader,
+  type Receipt,
+  type ReceiptVerificationKey,
+  verifyReceipt,
+} from "./receipt.ts";
+
+export type ExecutorVerificationResult = {
+  ok: boolean;
+  reason?: string;
+  receipt?: Receipt;
+  executeHash?: string;
+  intentHash?: string;
+  intentVerified?: boolean;
+};
+
+export async function verifyExecutorRequest(params: {
+  receiptHeader?: string | null;
+  receiptPublicKeyPem?: string;
+  receiptKeys?: ReceiptVerificationKey[];
+  expectedService: string;
+  execute: unknown;
+  intent?: unknown;
+  requireIntent?: boolean;
+  expectedAudience?: string | string[];
+  expectedOperation?: string;
+  expectedOrganizationId?: string;
+  acceptV1?: boolean;
+  acceptV1Until?: string | Date;
+  now?: Date;
+  clockSkewSeconds?: number;
+}): Promise<ExecutorVerificationResult> {
+  const decoded = decodeReceiptHeader(params.receiptHeader);
+  if (!decoded.ok || !decoded.receipt) {
+    return { ok: false, reason: decoded.reason || "missing_or_invalid_receipt_header" };
+  }
+  const receipt = decoded.receipt;
+
+  if (receipt.service !== params.expectedService) return { ok: false, reason: "receipt_service_mismatch" };
+
+  const v = await verifyReceipt({
+    receipt,
+    receiptPublicKeyPem: params.receiptPublicKeyPem,
+    receiptKeys: params.receiptKeys,
+    signingInput: decoded.signingInput,
+    now: params.now,
+    clockSkewSeconds: params.clockSkewSeconds ?? 10,
+    acceptV1: params.acceptV1,
+    acceptV1Until: params.acceptV1Until,
+  });
+  if (!v.ok) return { ok: false, reason: v.reason || "invalid_receipt" };
+
+  if (receipt.v === 2) {
+    const audiences =
+      params.expectedAudience === undefined
+        ? []
+        : Array.isArray(params.expectedAudience)
+          ? params.expectedAudience
+          : [params.expectedAudience];
+    if (!audiences.length) return { ok: false, reason: "missing_expected_audience" };
+    if (!audiences.includes(receipt.audience!)) return { ok: false, reason: "receipt_audience_mismatch" };
+
+    const actionOperation = String((params.execute as any)?.action || "").trim().split(":", 2)[1];
+    if (receipt.operation !== actionOperation) return { ok: false, reason: "receipt_operation_mismatch" };
+    if (params.expectedOperation !== undefined && receipt.operation !== params.expectedOperation) {
+      return { ok: false, reason: "receipt_operation_mismatch" };
+    }
+
+    if (
+      params.expectedOrganizationId !== undefined &&
+      receipt.organizationId !== params.expectedOrganizationId
+    ) {
+      return { ok: false, reason: "receipt_organization_mismatch" };
+    }
+  }
+
+  const executeHash = await tryPayloadHash(computeExecuteHash, params.execute);
+  if (executeHash === null) return { ok: false, reason: "invalid_execute_payload" };
+  if (executeHash !== receipt.executeHash) return { ok: false, reason: "execute_hash_mismatch" };
+
+  let intentVerified = false;
+  if (params.intent === undefined || params.intent === null) {
+    if (params.requireIntent) return { ok: false, reason: "missing_intent" };
+  } else {
+    const intentHash = await tryPayloadHash(computeIntentHash, params.intent);
+    if (intentHash === null) return { ok: false, reason: "invalid_intent_payload" };
+    if (intentHash !== receipt.intentHash) return { ok: false, reason: "intent_hash_mismatch" };
+    const intent = params.intent as any;
+    if (String(intent?.actor?.id ?? "") !== receipt.actorId) return { ok: false, reason: "receipt_actor_mismatch" };
+    if (String(intent?.intent ?? "") !== receipt.intent) return { ok: false, reason: "receipt_intent_mismatch" };
+    intentVerified = true;
+  }
+
+  return { ok: true, receipt, executeHash, intentHash: receipt.intentHash, intentVerified };
+}
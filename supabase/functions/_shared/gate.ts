@@ -0,0 +1,366 @@
+// supabase/functions/_shared/gate.ts
+// Gate flow for the Supabase adapter, same contract as src/gate.ts:
+// validate → service:operation routing → acceptance pre-checks →
+// Core /v1/execute (signature verified) → hash binding → receipt →
+// forward { intent, execute } with x-solace-receipt + idempotency-key.
+//
+// HARD RULE: no forwarding unless Core returns a verified PERMIT.
+//
+// Node-only features (approvals, batches, retries, dead letters,
+// execute schemas, decision log, revocations) are not implemented here;
+// ESCALATE is returned as a plain non-forwarded decision.
+
+import { computeExecuteHash, computeIntentHash, tryPayloadHash } from "./canonical.ts";
+import type { GateConfig } from "./config.ts";
+import { verifyCoreDecision } from "./coreSignature.ts";
+import { encodeReceiptHeader, type Receipt, signReceipt } from "./receipt.ts";
+import { type ForwardTarget, parseAction, resolveForwardRoute } from "./routing.ts";
+
+export type GateEnvelope = {
+  intent: { actor: { id: string }; intent: string; [k: string]: unknown };
+  execute: { action?: string; [k: string]: unknown };
+  acceptance: { [k: string]: unknown };
+};
+
+export type GateResult = {
+  decision: "PERMIT" | "DENY" | "ESCALATE" | string;
+  reason?: string;
+  receipt?: Receipt;
+  forwardStatus?: number;
+  forwardBody?: unknown;
+  forwardOutcome?: "delivered" | "unknown";
+  forwardError?:
+    | "executor_timeout"
+    | "executor_unreachable"
+    | "executor_response_too_large"
+    // A 502/503/504: a proxy answered, the executor may or may not have acted
+    | "executor_gateway_error";
+  forwardAttempts?: number;
+  executeHash?: string;
+  intentHash?: string;
+  authorityKeyId?: string | null;
+};
+
+type CoreResponse = {
+  decision: string;
+  reason?: string;
+  executeHash?: string;
+  intentHash?: string;
+  issuedAt?: string;
+  expiresAt?: string;
+  time?: string;
+  authorityKeyId?: string | null;
+  signature?: string;
+  keyId?: string;
+};
+
+const str = (v: unknown): string | undefined => (typeof v === "string" ? v : undefined);
+
+async function callCore(cfg: GateConfig, envelope: GateEnvelope): Promise<CoreResponse> {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), cfg.core.timeoutMs);
+
+  try {
+    const res = await fetch(`${cfg.core.coreBaseUrl.replace(/\/+$/, "")}/v1/execute`, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...cfg.core.headers },
+      body: JSON.stringify(envelope),
+      signal: controller.signal,
+    });
+
+    // Adapter fail-closed: if core is unhealthy/unreachable -> DENY
+    if (!res.ok) return { decision: "DENY", reason: `core_http_${res.status}` };
+
+    let data: any = null;
+    try {
+      data = await res.json();
+    } catch {
+      data = null;
+    }
+    if (!data || typeof data.decision !== "string") return { decision: "DENY", reason: "core_malformed_response" };
+
+    const out: CoreResponse = {
+      decision: data.decision,
+      reason: str(data.reason),
+      executeHash: str(data.executeHash),
+      intentHash: str(data.intentHash),
+      issuedAt: str(data.issuedAt),
+      expiresAt: str(data.expiresAt),
+      time: str(data.time),
+      authorityKeyId:
+        typeof data.authorityKeyId === "string" || data.authorityKeyId === null ? data.authorityKeyId : undefined,
+      signature: str(data.signature),
+      keyId: str(data.keyId),
+    };
+
+    // Unsigned / mis-signed decisions are indistinguishable from spoofed ones
+    const sig = await verifyCoreDecision({ decision: out, signature: out.signature, publicKeys: cfg.core.publicKeys });
+    if (!sig.ok) return { decision: "DENY", reason: sig.reason || "core_signature_invalid" };
+
+    // A PERMIT must sign the hashes it binds, or the receipt chain is unverifiable
+    if (out.decision === "PERMIT" && (!out.executeHash || !out.intentHash)) {
+      return { decision: "DENY", reason: "core_signed_hashes_missing" };
+    }
+
+    return out;
+  } catch {
+    return { decision: "DENY", reason: "core_unreachable" };
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+function precheckAcceptance(
+  envelope: GateEnvelope,
+  params: { clockSkewSeconds: number; executeHash: string }
+): { ok: boolean; reason?: string } {
+  const acceptance = envelope.acceptance as Record<string, unknown>;
+
+  const expiresAt = new Date(String(acceptance.expiresAt ?? ""));
+  if (!acceptance.expiresAt || Number.isNaN(expiresAt.getTime())) {
+    return { ok: false, reason: "acceptance_invalid_expires_at" };
+  }
+  if (Date.now() - params.clockSkewSeconds * 1000 > expiresAt.getTime()) {
+    return { ok: false, reason: "acceptance_expired" };
+  }
+  if (String(acceptance.actorId ?? "") !== String(envelope.intent.actor.id)) {
+    return { ok: false, reason: "acceptance_actor_mismatch" };
+  }
+  if (String(acceptance.intent ?? "") !== String(envelope.intent.intent)) {
+    return { ok: false, reason: "acceptance_intent_mismatch" };
+  }
+  if (acceptance.executeHash !== params.executeHash) {
+    return { ok: false, reason: "acceptance_execute_hash_mismatch" };
+  }
+  return { ok: true };
+}
+
+class ForwardFailure extends Error {
+  constructor(public reason: NonNullable<GateResult["forwardError"]>) {
+    super(reason);
+  }
+}
+
+async function readTextCapped(res: Response, maxBytes: number): Promise<string> {
+  const declared = Number(res.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) {
+    await res.body?.cancel().catch(() => undefined);
+    throw new ForwardFailure("executor_response_too_large");
+  }
+  if (!res.body) return "";
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw new ForwardFailure("executor_response_too_large");
+    }
+    chunks.push(value);
+  }
+
+  const all = new Uint8Array(total);
+  let offset = 0;
+  for (const c of chunks) {
+    all.set(c, offset);
+    offset += c.byteLength;
+  }
+  return new TextDecoder().decode(all);
+}
+
+// Gateway-style statuses: the request may not have reached the executor
+function isGatewayFailure(status: number): boolean {
+  return status === 502 || status === 503 || status === 504;
+}
+
+/**
+ * One forward attempt. Body is { intent, execute }: the acceptance stays
+ * between client, adapter and Core and is never forwarded.
+ */
+async function forwardToExecutor(
+  target: ForwardTarget,
+  operation: string,
+  envelope: GateEnvelope,
+  receipt: Receipt
+): Promise<{ status: number; body: unknown }> {
+  const route = resolveForwardRoute(target, operation)!;
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), target.timeoutMs ?? 10000);
+
+  try {
+    const res = await fetch(route.url, {
+      method: route.method,
+      headers: {
+        ...route.headers,
+        "content-type": "application/json",
+        "x-solace-receipt": encodeReceiptHeader(receipt),
+        "idempotency-key": receipt.receiptId,
+        ...(target.bearerToken ? { authorization: `Bearer ${target.bearerToken}` } : {}),
+      },
+      body: JSON.stringify({
+        intent: envelope.intent,
+        execute: envelope.execute,
+        // DO NOT forward acceptance
+      }),
+      signal: controller.signal,
+    });
+
+    const text = await readTextCapped(res, target.maxResponseBytes ?? 1024 * 1024);
+    let body: unknown = null;
+    if (text) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = { _raw: text };
+      }
+    }
+    return { status: res.status, body };
+  } catch (e) {
+    if (e instanceof ForwardFailure) throw e;
+    throw new ForwardFailure(controller.signal.aborted ? "executor_timeout" : "executor_unreachable");
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+export async function gateAndForward(
+  cfg: GateConfig,
+  envelope: GateEnvelope,
+  opts: { requestId?: string | null; organizationId?: string | null } = {}
+): Promise<GateResult> {
+  // Minimal envelope validation (adapter is fail-closed for execution)
+  if (!envelope?.intent?.actor?.id || !envelope.intent.intent || !envelope.execute || !envelope.acceptance) {
+    return { decision: "DENY", reason: "invalid_or_missing_gate_request" };
+  }
+
+  const actorId = String(envelope.intent.actor.id);
+  const intentName = String(envelope.intent.intent);
+
+  const rawAction = String(envelope.execute.action || "").trim();
+  const parsed = parseAction(rawAction);
+  if (!parsed) return { decision: "DENY", reason: "invalid_action_format" };
+
+  const { service, operation } = parsed;
+  const target = cfg.targets[service];
+  if (!target) return { decision: "DENY", reason: "unknown_forward_target" };
+
+  const route = resolveForwardRoute(target, operation);
+  if (!route) return { decision: "DENY", reason: "unknown_operation" };
+
+  const localExecuteHash = await tryPayloadHash(computeExecuteHash, envelope.execute);
+  if (localExecuteHash === null) return { decision: "DENY", reason: "invalid_execute_payload" };
+  const localIntentHash = await tryPayloadHash(computeIntentHash, envelope.intent);
+  if (localIntentHash === null) return { decision: "DENY", reason: "invalid_intent_payload" };
+
+  const pre = precheckAcceptance(envelope, {
+    clockSkewSeconds: cfg.clockSkewSeconds,
+    executeHash: localExecuteHash,
+  });
+  if (!pre.ok) {
+    return { decision: "DENY", reason: pre.reason, executeHash: localExecuteHash, intentHash: localIntentHash };
+  }
+
+  const core = await callCore(cfg, envelope);
+  if (core.decision !== "PERMIT") {
+    // No forwarding unless PERMIT
+    return { decision: core.decision, reason: core.reason || "core_denied" };
+  }
+
+  if (cfg.strictCoreHashes) {
+    const executeMismatch = core.executeHash !== undefined && core.executeHash !== localExecuteHash;
+    const intentMismatch = core.intentHash !== undefined && core.intentHash !== localIntentHash;
+    if (executeMismatch || intentMismatch) {
+      return {
+        decision: "DENY",
+        reason: "core_hash_mismatch",
+        executeHash: localExecuteHash,
+        intentHash: localIntentHash,
+        authorityKeyId: core.authorityKeyId ?? null,
+      };
+    }
+  }
+
+  const executeHash = core.executeHash || localExecuteHash;
+  const intentHash = core.intentHash || localIntentHash;
+
+  const receipt = await signReceipt({
+    receiptVersion: cfg.receiptVersion,
+    adapterId: cfg.adapterId,
+    service,
+    operation,
+    organizationId: opts.organizationId ?? null,
+    audience: target.audience ?? route.url,
+    requestId: opts.requestId ?? null,
+    actorId,
+    intent: intentName,
+    executeHash,
+    intentHash,
+    authorityKeyId: core.authorityKeyId ?? null,
+    coreIssuedAt: core.issuedAt,
+    coreExpiresAt: core.expiresAt,
+    coreTime: core.time,
+    coreSignature: core.signature,
+    coreKeyId: core.keyId,
+    signatureFormat: cfg.receiptFormat === "jws" ? "jws" : undefined,
+    receiptPrivateKeyPem: cfg.receiptPrivateKeyPem,
+    ttlSeconds: cfg.receiptTtlSeconds,
+  });
+
+  const bound = {
+    receipt,
+    executeHash: receipt.executeHash,
+    intentHash: receipt.intentHash,
+    authorityKeyId: receipt.authorityKeyId ?? null,
+  };
+
+  try {
+    const forwarded = await forwardToExecutor(target, operation, envelope, receipt);
+
+    // Not the executor's answer: unknown outcome, as the Node gateway
+    if (isGatewayFailure(forwarded.status)) {
+      return {
+        decision: "PERMIT",
+        reason: "core_permit_execution_unknown",
+        forwardOutcome: "unknown",
+        forwardError: "executor_gateway_error",
+        forwardStatus: forwarded.status,
+        forwardBody: forwarded.body,
+        forwardAttempts: 1,
+        ...bound,
+      };
+    }
+
+    return {
+      decision: "PERMIT",
+      reason: "forwarded_after_core_permit",
+      forwardStatus: forwarded.status,
+      forwardBody: forwarded.body,
+      forwardOutcome: "delivered",
+      forwardAttempts: 1,
+      ...bound,
+    };
+  } catch (e) {
+    // Core permitted and the executor may have acted: never report DENY
+    return {
+      decision: "PERMIT",
+      reason: "core_permit_execution_unknown",
+      forwardOutcome: "unknown",
+      forwardError: (e as ForwardFailure).reason,
+      forwardAttempts: 1,
+      ...bound,
+    };
+  }
+}
+
+/**
+ * HTTP status for a gate result, as the Node gateway's /v1/gate.
+ */
+export function gateHttpStatus(result: GateResult): number {
+  if (result.decision !== "PERMIT") return 403;
+  if (result.forwardOutcome === "unknown") return result.forwardError === "executor_timeout" ? 504 : 502;
+  return 200;
+}
@@ -0,0 +1,149 @@
+// supabase/functions/_shared/routing.ts
+// service:operation prefix routing, same contract as the Node gateway
+// (src/config.ts target parsing + resolveForwardRoute in src/forwarding.ts).
+//
+// execute.action = "<service>:<operation>"; SOLACE_ADAPTER_TARGETS_JSON:
+//   { "<service>": { url, bearerToken?, audience?, timeoutMs?, maxResponseBytes?,
+//                    operations?: ["refund"] | { "refund": { url?, path?, method?, headers? } } } }
+
+export type ForwardMethod = "POST" | "PUT" | "PATCH";
+
+export type ForwardOperation = {
+  url?: string;
+  path?: string;
+  method?: ForwardMethod;
+  headers?: Record<string, string>;
+};
+
+export type ForwardTarget = {
+  service: string;
+  url: string;
+  bearerToken?: string;
+  audience?: string;
+  operations?: Record<string, ForwardOperation>;
+  timeoutMs?: number;
+  maxResponseBytes?: number;
+};
+
+const FORWARD_METHODS: ForwardMethod[] = ["POST", "PUT", "PATCH"];
+
+// Headers the adapter sets itself; static target headers may not override them
+const RESERVED_FORWARD_HEADERS = ["content-type", "authorization", "x-solace-receipt", "idempotency-key"];
+
+function parseOperations(
+  service: string,
+  raw: unknown
+): Record<string, ForwardOperation> | undefined {
+  if (raw === undefined) return undefined;
+
+  const out: Record<string, ForwardOperation> = {};
+
+  if (Array.isArray(raw)) {
+    for (const op of raw) {
+      if (!op || typeof op !== "string") throw new Error(`invalid_target_operation :: ${service}`);
+      out[op] = {};
+    }
+    return out;
+  }
+
+  if (!raw || typeof raw !== "object") throw new Error(`invalid_target_operations :: ${service}`);
+
+  for (const op of Object.keys(raw)) {
+    const o = ((raw as Record<string, any>)[op] || {}) as Record<string, any>;
+
+    const method = o.method ? (String(o.method).toUpperCase() as ForwardMethod) : undefined;
+    if (method && !FORWARD_METHODS.includes(method)) {
+      throw new Error(`invalid_target_operation_method :: ${service}:${op}`);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const h of Object.keys(o.headers || {})) {
+      if (RESERVED_FORWARD_HEADERS.includes(h.toLowerCase())) {
+        throw new Error(`reserved_target_operation_header :: ${service}:${op}:${h}`);
+      }
+      headers[h] = String(o.headers[h]);
+    }
+
+    out[op] = {
+      url: o.url ? String(o.url) : undefined,
+      path: o.path ? String(o.path) : undefined,
+      method,
+      headers: Object.keys(headers).length ? headers : undefined,
+    };
+  }
+
+  return out;
+}
+
+function positiveInt(raw: unknown, fallback: number): number {
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export function parseTargets(
+  raw: unknown,
+  defaults: { timeoutMs: number; maxResponseBytes: number; bearerToken?: string }
+): Record<string, ForwardTarget> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("invalid_targets_json");
+
+  const targets: Record<string, ForwardTarget> = {};
+  for (const service of Object.keys(raw)) {
+    const t = (raw as Record<string, any>)[service];
+    if (!t?.url) throw new Error(`invalid_target_missing_url :: ${service}`);
+
+    targets[service] = {
+      service,
+      url: String(t.url),
+      bearerToken: t.bearerToken ? String(t.bearerToken) : defaults.bearerToken,
+      audience: t.audience ? String(t.audience) : undefined,
+      operations: parseOperations(service, t.operations),
+      timeoutMs: positiveInt(t.timeoutMs, defaults.timeoutMs),
+      maxResponseBytes: positiveInt(t.maxResponseBytes, defaults.maxResponseBytes),
+    };
+  }
+  return targets;
+}
+
+/**
+ * "<service>:<operation>" → parts, or null when malformed.
+ */
+export function parseAction(rawAction: string): { service: string; operation: string } | null {
+  if (!rawAction.includes(":")) return null;
+  const [service, operation] = rawAction.split(":", 2);
+  if (!service || !operation) return null;
+  return { service, operation };
+}
+
+function joinUrl(base: string, path: string): string {
+  const b = base.replace(/\/+$/, "");
+  const p = path.startsWith("/") ? path : `/${path}`;
+  return `${b}${p}`;
+}
+
+/**
+ * Resolves url/method/headers for service:operation.
+ * Returns null if the target declares operations and this one is not among them.
+ */
+export function resolveForwardRoute(
+  target: ForwardTarget,
+  operation: string
+): { url: string; method: ForwardMethod; headers: Record<string, string> } | null {
+  if (!target.operations) {
+    return { url: target.url, method: "POST", headers: {} };
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(target.operations, operation)) return null;
+  const op = target.operations[operation];
+
+  let url = target.url;
+  if (op.url) {
+    url = op.url;
+  } else if (op.path) {
+    const path = op.path
+      .replace(/\{service\}/g, encodeURIComponent(target.service))
+      .replace(/\{operation\}/g, encodeURIComponent(operation));
+    url = joinUrl(target.url, path);
+  }
+
+  return { url, method: op.method ?? "POST", headers: { ...(op.headers ?? {}) } };
+}
@@ -1,14 +1,17 @@
 // supabase/functions/executor-generic/index.ts
 // Executor example: ONLY accepts adapter-forwarded requests.
+// Same request contract as Node executors (src/executorVerifier.ts):
+//   headers: x-solace-receipt, idempotency-key (= receiptId), authorization
+//   body:    { intent, execute }   (never the acceptance)
 // Hard locks:
-//  1) x-solace-internal-secret header must match
-//  2) receipt must verify (signature + TTL)
+//  1) Authorization: Bearer <SOLACE_EXECUTOR_INTERNAL_SECRET> must match
+//  2) receipt must verify (signature + TTL, v1 only during migration)
 //  3) receipt.service must match THIS executor's service
-//  4) executeHash must match payload
+//  4) v2: receipt.audience must name THIS executor, operation must match
+//  5) executeHash and intentHash must match the body
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { computeExecuteHash } from "../_shared/canonical.ts";
-import { verifyReceiptV1, type ReceiptV1 } from "../_shared/receipt.ts";
+import { verifyExecutorRequest } from "../_shared/executorVerifier.ts";
 
 function json(resBody: unknown, status = 200) {
   return new Response(JSON.stringify(resBody), {
@@ -24,12 +27,8 @@ function mustEnv(name: string): string {
 }
 
 type Incoming = {
-  envelope: {
-    intent: { actor: { id: string }; intent: string; [k: string]: unknown };
-    execute: { action?: string; [k: string]: unknown };
-    acceptance: { [k: string]: unknown };
-  };
-  receipt: ReceiptV1;
+  intent?: { actor: { id: string }; intent: string; [k: string]: unknown };
+  execute?: { action?: string; [k: string]: unknown };
 };
 
 serve(async (req) => {
@@ -38,10 +37,9 @@ serve(async (req) => {
   }
   if (req.method !== "POST") return json({ decision: "DENY", reason: "method_not_allowed" }, 405);
 
-  // Lock #1: internal secret header
+  // Lock #1: shared secret as bearer token (target bearerToken on the adapter)
   const expectedSecret = mustEnv("SOLACE_EXECUTOR_INTERNAL_SECRET");
-  const got = req.headers.get("x-solace-internal-secret");
-  if (!got || got !== expectedSecret) {
+  if (req.headers.get("authorization") !== `Bearer ${expectedSecret}`) {
     return json({ decision: "DENY", reason: "missing_or_invalid_internal_secret" }, 403);
   }
 
@@ -52,32 +50,32 @@ serve(async (req) => {
     return json({ decision: "DENY", reason: "invalid_json" }, 400);
   }
 
-  if (!body?.envelope?.execute || !body?.receipt) {
+  if (!body?.execute) {
     return json({ decision: "DENY", reason: "invalid_or_missing_executor_request" });
   }
 
-  // Lock #2: receipt verify
-  const receiptPublicKeyPem = mustEnv("SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PEM");
   const expectedService = mustEnv("SOLACE_EXECUTOR_SERVICE"); // e.g. "payments" / "email" / "crm"
 
-  const vr = await verifyReceiptV1({
-    receipt: body.receipt,
-    receiptPublicKeyPem,
+  // Locks #2-#5
+  const v = await verifyExecutorRequest({
+    receiptHeader: req.headers.get("x-solace-receipt"),
+    receiptPublicKeyPem: mustEnv("SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PEM"),
+    expectedService,
+    // The target's "audience", or its URL; comma-separated
+    expectedAudience: (Deno.env.get("SOLACE_EXECUTOR_AUDIENCE") || "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean),
+    acceptV1Until: Deno.env.get("SOLACE_EXECUTOR_ACCEPT_V1_UNTIL") || undefined,
+    execute: body.execute,
+    intent: body.intent,
+    requireIntent: true,
     clockSkewSeconds: Number(Deno.env.get("SOLACE_CLOCK_SKEW_SECONDS") || "10") || 10,
   });
 
-  if (!vr.ok) return json({ decision: "DENY", reason: vr.reason || "invalid_receipt" });
+  if (!v.ok) return json({ decision: "DENY", reason: v.reason || "invalid_receipt" });
 
-  // Lock #3: service match
-  if (body.receipt.service !== expectedService) {
-    return json({ decision: "DENY", reason: "receipt_service_mismatch" });
-  }
-
-  // Lock #4: executeHash match
-  const localExecuteHash = await computeExecuteHash(body.envelope.execute);
-  if (localExecuteHash !== body.receipt.executeHash) {
-    return json({ decision: "DENY", reason: "execute_hash_mismatch" });
-  }
+  const receipt = v.receipt!;
 
   // ------------------------------------------------------------
   // SIDE EFFECTS GO HERE
@@ -86,15 +84,19 @@ serve(async (req) => {
   // If you do DB writes, do it with Supabase service role via env var
   // OR use RLS-safe anon flows depending on your model.
   //
+  // Enforce idempotency on receipt.receiptId (= idempotency-key header)
+  // with a unique constraint before acting.
+  //
   // IMPORTANT: never execute anything without passing the checks above.
   // ------------------------------------------------------------
 
   return json({
     decision: "PERMIT",
     reason: "executor_performed_side_effects",
-    actorId: body.receipt.actorId,
-    intent: body.receipt.intent,
-    executeHash: body.receipt.executeHash,
+    receiptId: receipt.receiptId,
+    actorId: receipt.actorId,
+    intent: receipt.intent,
+    executeHash: receipt.executeHash,
     service: expectedService,
   });
 });
@@ -0,0 +1,31 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { precheckAcceptance } from "../src/acceptance.js";
+import type { Acceptance } from "../src/types.js";
+import { acceptance, execute, intent } from "./helpers.js";
+
+const check = (overrides: Partial<Acceptance>, params: Parameters<typeof precheckAcceptance>[1] = {}) =>
+  precheckAcceptance({ intent, execute, acceptance: acceptance(overrides) }, params);
+
+describe("precheckAcceptance", () => {
+  it("passes an acceptance matching actor, intent and execute", () => {
+    assert.deepEqual(check({}), { ok: true });
+  });
+
+  it("rejects mismatched bindings before Core is called", () => {
+    assert.equal(check({ actorId: "actor-2" }).reason, "acceptance_actor_mismatch");
+    assert.equal(check({ intent: "charge" }).reason, "acceptance_intent_mismatch");
+    assert.equal(check({ executeHash: "0".repeat(64) }).reason, "acceptance_execute_hash_mismatch");
+  });
+
+  it("rejects missing, unparseable and expired expiries, allowing clock skew", () => {
+    assert.equal(check({ expiresAt: "" }).reason, "acceptance_invalid_expires_at");
+    assert.equal(check({ expiresAt: "soon" }).reason, "acceptance_invalid_expires_at");
+
+    const expiresAt = "2026-01-01T00:00:00.000Z";
+    const now = (ms: number) => new Date(new Date(expiresAt).getTime() + ms);
+    assert.equal(check({ expiresAt }, { now: now(5000) }).ok, true);
+    assert.equal(check({ expiresAt }, { now: now(11000) }).reason, "acceptance_expired");
+    assert.equal(check({ expiresAt }, { now: now(5000), clockSkewSeconds: 0 }).reason, "acceptance_expired");
+  });
+});
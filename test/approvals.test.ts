@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { approvePendingApproval, getApproval, rejectPendingApproval } from "../src/approvals.js";
+import { gateAndForward } from "../src/gate.js";
+import { FileRecordStore } from "../src/stores.js";
+import type { PendingApproval } from "../src/types.js";
+import { acceptance, adapterConfig, coreDecision, execute, intent, keyPair, serveJson, tempDir } from "./helpers.js";
+
+describe("approvals", () => {
+  const coreKey = keyPair();
+  let core: Awaited<ReturnType<typeof serveJson>>;
+  let coreCalls = 0;
+  let escalate = true;
+
+  before(async () => {
+    core = await serveJson(() => {
+      coreCalls++;
+      const fields = escalate
+        ? { decision: "ESCALATE" as const, reason: "needs_review" }
+        : { decision: "DENY" as const, reason: "core_denied" };
+      return { body: coreDecision(coreKey.privateKeyPem, fields) };
+    });
+  });
+  after(() => core.close());
+
+  const cfg = () =>
+    adapterConfig({
+      core: { coreBaseUrl: core.url, timeoutMs: 2000, publicKeys: { "core-1": coreKey.publicKeyPem } },
+      targets: { payments: { service: "payments", url: "http://127.0.0.1:9" } },
+    });
+
+  async function park(store: FileRecordStore<PendingApproval>): Promise<string> {
+    escalate = true;
+    const res = await gateAndForward(cfg(), { intent, execute, acceptance: acceptance() }, { approvals: store });
+    assert.equal(res.decision, "ESCALATE");
+    escalate = false;
+    return res.approvalId!;
+  }
+
+  it("re-runs the gate once when two approvers (on separate store instances) race", async () => {
+    const file = path.join(tempDir(), "approvals.jsonl");
+    const approvalId = await park(new FileRecordStore<PendingApproval>(file));
+
+    coreCalls = 0;
+    const results = await Promise.all(
+      ["alice", "bob"].map((decidedBy) =>
+        approvePendingApproval(cfg(), new FileRecordStore<PendingApproval>(file), {
+          approvalId,
+          acceptance: acceptance(),
+          decidedBy,
+        })
+      )
+    );
+
+    assert.equal(coreCalls, 1);
+    assert.deepEqual(results.map((r) => r.ok).sort(), [false, true]);
+    assert.equal(results.find((r) => !r.ok)?.reason, "approval_not_pending");
+
+    const stored = await getApproval(new FileRecordStore<PendingApproval>(file), approvalId);
+    assert.equal(stored?.status, "approved");
+    assert.equal(stored?.result?.reason, "core_denied");
+  });
+
+  it("does not approve once rejected, nor reject once approved", async () => {
+    const store = new FileRecordStore<PendingApproval>(path.join(tempDir(), "approvals.jsonl"));
+    const approvalId = await park(store);
+
+    assert.equal((await rejectPendingApproval(store, { approvalId, decidedBy: "alice" })).ok, true);
+    const approve = await approvePendingApproval(cfg(), store, { approvalId, acceptance: acceptance(), decidedBy: "bob" });
+    assert.deepEqual([approve.ok, approve.reason, approve.approval?.status], [false, "approval_not_pending", "rejected"]);
+  });
+
+  it("expires approvals past their window and refuses them", async () => {
+    const store = new FileRecordStore<PendingApproval>(path.join(tempDir(), "approvals.jsonl"));
+    const approvalId = await park(store);
+    const later = new Date(Date.now() + 2 * 3600 * 1000);
+
+    coreCalls = 0;
+    const res = await approvePendingApproval(cfg(), store, { approvalId, acceptance: acceptance(), decidedBy: "alice", now: later });
+    assert.deepEqual([res.ok, res.reason], [false, "approval_expired"]);
+    assert.equal(coreCalls, 0);
+    assert.equal((await store.get(approvalId))?.status, "expired");
+  });
+});
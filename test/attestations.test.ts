@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  attestForward,
+  encodeAttestationHeader,
+  executionResultHash,
+  signExecutionAttestation,
+} from "../src/attestations.js";
+import type { ForwardTarget } from "../src/types.js";
+import { keyPair, mintReceipt } from "./helpers.js";
+
+describe("attestForward", () => {
+  const adapter = keyPair();
+  const executor = keyPair();
+  const { receipt } = mintReceipt(adapter.privateKeyPem);
+  const target: ForwardTarget = {
+    service: "payments",
+    url: "http://executor/",
+    executorPublicKeyPem: executor.publicKeyPem,
+  };
+
+  const bodyText = '{"refunded":true}';
+  const header = (fields: { receiptId?: string; httpStatus?: number; privateKeyPem?: string } = {}) =>
+    encodeAttestationHeader(
+      signExecutionAttestation({
+        receiptId: receipt.receiptId,
+        executeHash: receipt.executeHash,
+        httpStatus: 200,
+        bodyText,
+        privateKeyPem: executor.privateKeyPem,
+        ...fields,
+      })
+    );
+  const forwarded = (attestation: string | null, status = 200, text = bodyText) => ({
+    status,
+    resultHash: executionResultHash(text),
+    attestation,
+  });
+
+  it("attests a response signed by the executor key over the same status and body", () => {
+    const a = attestForward(target, receipt, forwarded(header()));
+    assert.equal(a.execution, "attested");
+    assert.equal(a.executionAttestation?.receiptId, receipt.receiptId);
+
+    // Re-serialized JSON hashes the same
+    assert.equal(attestForward(target, receipt, forwarded(header(), 200, '{ "refunded": true }')).execution, "attested");
+  });
+
+  it("leaves the result unverified without an attestation or an executor key", () => {
+    assert.deepEqual(attestForward(target, receipt, forwarded(null)), {
+      execution: "unverified",
+      executionReason: "missing_execution_attestation",
+    });
+    const { executorPublicKeyPem: _, ...keyless } = target;
+    assert.equal(attestForward(keyless, receipt, forwarded(header())).executionReason, "no_executor_key");
+    assert.equal(attestForward(target, receipt, forwarded("not base64 json")).executionReason, "invalid_execution_attestation");
+  });
+
+  it("rejects other signers, other receipts, and status or body mismatches", () => {
+    const reason = (attestation: string, status?: number, text?: string) =>
+      attestForward(target, receipt, forwarded(attestation, status, text)).executionReason;
+
+    assert.equal(reason(header({ privateKeyPem: keyPair().privateKeyPem })), "invalid_execution_attestation_signature");
+    assert.equal(reason(header({ receiptId: "rcpt-other" })), "attestation_receipt_mismatch");
+    assert.equal(reason(header({ httpStatus: 500 })), "attestation_status_mismatch");
+    assert.equal(reason(header(), 200, '{"refunded":false}'), "attestation_result_hash_mismatch");
+  });
+});
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { gateBatch } from "../src/batch.js";
+import { computeExecuteHash, computeIntentHash } from "../src/canonical.js";
+import { MemoryRecordStore } from "../src/stores.js";
+import type { ForwardRecord } from "../src/types.js";
+import { acceptance, adapterConfig, coreDecision, execute, intent, keyPair, serveJson } from "./helpers.js";
+
+describe("gateBatch", () => {
+  const coreKey = keyPair();
+  let core: Awaited<ReturnType<typeof serveJson>>;
+  let executor: Awaited<ReturnType<typeof serveJson>>;
+  let statuses: number[] = [];
+  let forwarded = 0;
+
+  before(async () => {
+    core = await serveJson((req) => {
+      const env = JSON.parse(req.body);
+      return {
+        body: coreDecision(coreKey.privateKeyPem, {
+          executeHash: computeExecuteHash(env.execute),
+          intentHash: computeIntentHash(env.intent),
+        }),
+      };
+    });
+    executor = await serveJson(() => {
+      forwarded++;
+      return { status: statuses.shift() ?? 200, body: { ok: true } };
+    });
+  });
+  after(async () => {
+    await core.close();
+    await executor.close();
+  });
+
+  const cfg = () =>
+    adapterConfig({
+      core: { coreBaseUrl: core.url, timeoutMs: 2000, publicKeys: { "core-1": coreKey.publicKeyPem } },
+      targets: { payments: { service: "payments", url: executor.url } },
+    });
+
+  const envelopes = (n: number) =>
+    Array.from({ length: n }, (_, i) => {
+      const e = { ...execute, amount: 100 + i };
+      return { intent, execute: e, acceptance: acceptance({ executeHash: computeExecuteHash(e) }) };
+    });
+
+  it("forwards every item when all are delivered with 2xx", async () => {
+    statuses = [];
+    const out = await gateBatch(cfg(), envelopes(2));
+    assert.equal(out.decision, "PERMIT");
+    assert.deepEqual(out.items.map((i) => i.forwardStatus), [200, 200]);
+  });
+
+  it("halts on a non-2xx executor status, not only on 5xx", async () => {
+    statuses = [200, 409];
+    forwarded = 0;
+    const out = await gateBatch(cfg(), envelopes(3));
+
+    assert.equal(forwarded, 2);
+    assert.deepEqual([out.decision, out.reason], ["DENY", "batch_forward_halted"]);
+    assert.deepEqual(out.items.map((i) => i.forwardStatus ?? i.reason), [200, 409, "batch_forward_halted"]);
+  });
+
+  it("reports an item that could not be sent like the halted ones, without its receipt", async () => {
+    statuses = [];
+    forwarded = 0;
+    const forwards = new MemoryRecordStore<ForwardRecord>();
+    forwards.put = async () => {
+      throw new Error("store_down");
+    };
+
+    const out = await gateBatch(cfg(), envelopes(2), { forwards });
+    assert.equal(forwarded, 0);
+    assert.equal(out.decision, "DENY");
+    assert.deepEqual(out.items.map((i) => i.reason), ["store_down", "batch_forward_halted"]);
+    assert.deepEqual(Object.keys(out.items[0]).sort(), Object.keys(out.items[1]).sort());
+  });
+});
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { computeExecuteHash, computeIntentHash } from "../src/canonical.js";
+import { SolaceCoreClient } from "../src/coreClient.js";
+import { verifyReceiptCoreSignature } from "../src/coreSignature.js";
+import { verifyExecutorRequest } from "../src/executorVerifier.js";
+import { acceptance, coreDecision, execute, intent, keyPair, mintReceipt, serveJson } from "./helpers.js";
+
+const core = keyPair();
+const hashes = { executeHash: computeExecuteHash(execute), intentHash: computeIntentHash(intent) };
+
+describe("Core decision signatures (SolaceCoreClient)", () => {
+  let next: Record<string, unknown> = {};
+  let server: Awaited<ReturnType<typeof serveJson>>;
+  before(async () => {
+    server = await serveJson(() => ({ body: next }));
+  });
+  after(() => server.close());
+
+  async function decide(
+    body: Record<string, unknown>,
+    publicKeys: Record<string, string> = { "core-1": core.publicKeyPem }
+  ) {
+    next = body;
+    const client = new SolaceCoreClient({ coreBaseUrl: server.url, timeoutMs: 2000, publicKeys });
+    return client.execute({ intent, execute, acceptance: acceptance() });
+  }
+
+  it("passes a PERMIT signed over its hashes by a known key", async () => {
+    const out = await decide(coreDecision(core.privateKeyPem, hashes));
+    assert.equal(out.decision, "PERMIT");
+    assert.equal(out.executeHash, hashes.executeHash);
+  });
+
+  it("denies missing and invalid signatures and unknown keys", async () => {
+    const { signature: _, ...unsigned } = coreDecision(core.privateKeyPem, hashes);
+    assert.deepEqual(await decide(unsigned), { decision: "DENY", reason: "core_signature_missing" });
+
+    const forged = coreDecision(keyPair().privateKeyPem, hashes);
+    assert.deepEqual(await decide(forged), { decision: "DENY", reason: "core_signature_invalid" });
+
+    const otherKey = coreDecision(core.privateKeyPem, { ...hashes, keyId: "core-9" });
+    assert.deepEqual(await decide(otherKey), { decision: "DENY", reason: "core_signature_key_unknown" });
+
+    const signed = coreDecision(core.privateKeyPem, hashes);
+    assert.deepEqual(await decide(signed, {}), { decision: "DENY", reason: "missing_core_public_keys" });
+  });
+
+  it("denies a decision whose signed fields were changed", async () => {
+    const signed = coreDecision(core.privateKeyPem, { ...hashes, authorityKeyId: "auth-1" });
+    for (const [field, value] of [
+      ["executeHash", "0".repeat(64)],
+      ["intentHash", "0".repeat(64)],
+      ["authorityKeyId", "auth-2"],
+      ["issuedAt", new Date(0).toISOString()],
+      ["expiresAt", new Date(Date.now() + 3600000).toISOString()],
+      ["time", new Date(0).toISOString()],
+    ] as const) {
+      const out = await decide({ ...signed, [field]: value });
+      assert.deepEqual(out, { decision: "DENY", reason: "core_signature_invalid" }, field);
+    }
+
+    // A signed DENY turned into a PERMIT
+    const denied = coreDecision(core.privateKeyPem, { ...hashes, decision: "DENY", reason: "policy" });
+    assert.deepEqual(await decide({ ...denied, decision: "PERMIT" }), {
+      decision: "DENY",
+      reason: "core_signature_invalid",
+    });
+  });
+
+  it("denies a signed PERMIT that binds no hashes", async () => {
+    for (const fields of [{ intentHash: hashes.intentHash }, { executeHash: hashes.executeHash }, {}]) {
+      assert.deepEqual(await decide(coreDecision(core.privateKeyPem, fields)), {
+        decision: "DENY",
+        reason: "core_signed_hashes_missing",
+      });
+    }
+  });
+});
+
+describe("verifyReceiptCoreSignature (executor side)", () => {
+  const adapter = keyPair();
+  const corePublicKeys = { "core-1": core.publicKeyPem };
+  const signed = coreDecision(core.privateKeyPem, { ...hashes, authorityKeyId: "auth-1" });
+  const coreFields = {
+    authorityKeyId: "auth-1",
+    coreIssuedAt: signed.issuedAt as string,
+    coreExpiresAt: signed.expiresAt as string,
+    coreTime: signed.time as string,
+    coreSignature: signed.signature as string,
+    coreKeyId: "core-1",
+  };
+
+  const verify = (header: string) =>
+    verifyExecutorRequest({
+      receiptHeader: header,
+      receiptPublicKeyPem: adapter.publicKeyPem,
+      expectedService: "payments",
+      corePublicKeys,
+      execute,
+      intent,
+    });
+
+  it("accepts a receipt carrying the Core PERMIT it was minted from", () => {
+    const { receipt, header } = mintReceipt(adapter.privateKeyPem, coreFields);
+    assert.deepEqual(verifyReceiptCoreSignature({ receipt, corePublicKeys }), { ok: true });
+    assert.equal(verify(header).ok, true);
+  });
+
+  it("rejects receipts whose Core fields do not match the Core signature", () => {
+    for (const overrides of [
+      { coreSignature: undefined },
+      { coreTime: new Date(0).toISOString() },
+      { authorityKeyId: "auth-2" },
+      { coreKeyId: "core-9" },
+    ]) {
+      const { receipt, header } = mintReceipt(adapter.privateKeyPem, { ...coreFields, ...overrides });
+      assert.equal(verifyReceiptCoreSignature({ receipt, corePublicKeys }).ok, false);
+      assert.equal(verify(header).ok, false);
+    }
+
+    // Signed for other hashes than the receipt binds
+    const { receipt } = mintReceipt(adapter.privateKeyPem, { ...coreFields, intentHash: "0".repeat(64) });
+    assert.equal(verifyReceiptCoreSignature({ receipt, corePublicKeys }).reason, "core_signature_invalid");
+  });
+});
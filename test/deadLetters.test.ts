@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { getDeadLetter, redriveDeadLetter } from "../src/deadLetters.js";
+import { FileRecordStore } from "../src/stores.js";
+import type { DeadLetterEntry } from "../src/types.js";
+import { acceptance, adapterConfig, coreDecision, execute, intent, keyPair, mintReceipt, serveJson, tempDir } from "./helpers.js";
+
+describe("redriveDeadLetter", () => {
+  const coreKey = keyPair();
+  let core: Awaited<ReturnType<typeof serveJson>>;
+  let coreCalls = 0;
+
+  before(async () => {
+    core = await serveJson(async () => {
+      coreCalls++;
+      // Hold the claim long enough for a concurrent re-drive to collide with it
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return { body: coreDecision(coreKey.privateKeyPem, { decision: "DENY", reason: "core_denied" }) };
+    });
+  });
+  after(() => core.close());
+
+  const cfg = () =>
+    adapterConfig({
+      core: { coreBaseUrl: core.url, timeoutMs: 2000, publicKeys: { "core-1": coreKey.publicKeyPem } },
+      targets: { payments: { service: "payments", url: "http://127.0.0.1:9" } },
+    });
+
+  async function seed(overrides: Partial<DeadLetterEntry> = {}): Promise<{ file: string; id: string }> {
+    const file = path.join(tempDir(), "dead-letters.jsonl");
+    const { receipt } = mintReceipt(cfg().receiptPrivateKeyPem!);
+    const now = Date.now();
+    const entry: DeadLetterEntry = {
+      id: "dl-1",
+      status: "open",
+      receiptId: receipt.receiptId,
+      receipt,
+      envelopeHash: "0".repeat(64),
+      envelope: { intent, execute, acceptance: acceptance() },
+      service: "payments",
+      operation: "refund",
+      target: "http://127.0.0.1:9",
+      error: "executor_unreachable",
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + 3600000).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+      redrives: [],
+      ...overrides,
+    };
+    await new FileRecordStore<DeadLetterEntry>(file).put(entry.id, entry);
+    return { file, id: entry.id };
+  }
+
+  it("lets one of two concurrent re-drives (gateway and CLI) run the gate", async () => {
+    const { file, id } = await seed();
+
+    coreCalls = 0;
+    const results = await Promise.all(
+      ["admin", "cli"].map((by) => redriveDeadLetter(cfg(), new FileRecordStore<DeadLetterEntry>(file), { id, by }))
+    );
+
+    assert.equal(coreCalls, 1);
+    assert.deepEqual(results.map((r) => r.reason).sort(), ["core_denied", "dead_letter_not_open"]);
+
+    // The failed re-drive releases the claim with its outcome recorded
+    const entry = await getDeadLetter(new FileRecordStore<DeadLetterEntry>(file), id);
+    assert.equal(entry?.status, "open");
+    assert.equal(entry?.redrives.length, 1);
+  });
+
+  it("takes over a claim whose holder never recorded an outcome", async () => {
+    const stale = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    const { file, id } = await seed({ status: "redriving", updatedAt: stale });
+
+    const res = await redriveDeadLetter(cfg(), new FileRecordStore<DeadLetterEntry>(file), { id, by: "admin" });
+    assert.equal(res.reason, "core_denied");
+    assert.equal(res.entry?.redrives.length, 1);
+  });
+
+  it("refuses a live claim and abandons expired entries", async () => {
+    const { file, id } = await seed({ status: "redriving" });
+    const store = new FileRecordStore<DeadLetterEntry>(file);
+    assert.equal((await redriveDeadLetter(cfg(), store, { id, by: "admin" })).reason, "dead_letter_not_open");
+
+    const past = new Date(Date.now() - 1000).toISOString();
+    const expired = await seed({ expiresAt: past });
+    const res = await redriveDeadLetter(cfg(), new FileRecordStore<DeadLetterEntry>(expired.file), {
+      id: expired.id,
+      by: "admin",
+    });
+    assert.deepEqual([res.reason, res.entry?.status], ["dead_letter_abandoned", "abandoned"]);
+  });
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { describe, it } from "node:test";
+import { FileDecisionLog, readDecisionLogFile, verifyDecisionLog } from "../src/decisionLog.js";
+import { tempDir } from "./helpers.js";
+
+async function logOf(n: number): Promise<string> {
+  const file = path.join(tempDir(), "decision-log.jsonl");
+  const log = new FileDecisionLog(file);
+  for (let i = 0; i < n; i++) await log.append({ decision: "PERMIT", reason: `r${i}` });
+  return file;
+}
+
+function rewrite(file: string, edit: (lines: string[]) => string[]) {
+  const lines = fs.readFileSync(file, "utf8").split("\n").filter(Boolean);
+  fs.writeFileSync(file, edit(lines).join("\n") + "\n");
+}
+
+describe("decision log", () => {
+  it("chains appends, including from a second writer on the same file", async () => {
+    const file = await logOf(2);
+    await new FileDecisionLog(file).append({ decision: "DENY", reason: "core_denied" });
+    await new FileDecisionLog(file).append({ decision: "PERMIT" });
+
+    const v = verifyDecisionLog(readDecisionLogFile(file));
+    assert.deepEqual([v.ok, v.count], [true, 4]);
+  });
+
+  it("keeps one chain when writers append at the same time", async () => {
+    const file = await logOf(1);
+    const a = new FileDecisionLog(file);
+    const b = new FileDecisionLog(file);
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) => (i % 2 ? a : b).append({ decision: "PERMIT", reason: `w${i}` }))
+    );
+
+    const v = verifyDecisionLog(readDecisionLogFile(file));
+    assert.deepEqual([v.ok, v.count], [true, 11]);
+    assert.equal(fs.existsSync(file + ".lock"), false);
+  });
+
+  it("drops a partial last line left by a crash and keeps appending", async () => {
+    const file = await logOf(2);
+    fs.appendFileSync(file, '{"decision":"PERMIT","seq":3,"ti');
+
+    const entry = await new FileDecisionLog(file).append({ decision: "DENY" });
+    assert.equal(entry.seq, 3);
+    const v = verifyDecisionLog(readDecisionLogFile(file));
+    assert.deepEqual([v.ok, v.count], [true, 3]);
+  });
+
+  it("detects edited, deleted and reordered entries", async () => {
+    const edited = await logOf(3);
+    rewrite(edited, (lines) => lines.map((l, i) => (i === 1 ? l.replace('"PERMIT"', '"DENY"') : l)));
+    const v = verifyDecisionLog(readDecisionLogFile(edited));
+    assert.deepEqual([v.reason, v.brokenAtSeq], ["entry_hash_mismatch", 2]);
+
+    const deleted = await logOf(3);
+    rewrite(deleted, (lines) => [lines[0], lines[2]]);
+    assert.equal(verifyDecisionLog(readDecisionLogFile(deleted)).reason, "seq_gap");
+
+    const reordered = await logOf(3);
+    rewrite(reordered, (lines) => [lines[1], lines[0], lines[2]]);
+    assert.equal(verifyDecisionLog(readDecisionLogFile(reordered)).ok, false);
+  });
+
+  it("detects a truncated tail only against an anchor", async () => {
+    const file = await logOf(3);
+    const head = verifyDecisionLog(readDecisionLogFile(file)).head;
+    rewrite(file, (lines) => lines.slice(0, 2));
+
+    const entries = readDecisionLogFile(file);
+    assert.equal(verifyDecisionLog(entries).ok, true);
+    assert.equal(verifyDecisionLog(entries, { expectedHead: head }).reason, "anchored_head_missing");
+    assert.equal(verifyDecisionLog(entries, { minEntries: 3 }).reason, "log_truncated");
+  });
+});
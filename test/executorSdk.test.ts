@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import { after, before, describe, it } from "node:test";
+import express from "express";
+import type { Server } from "http";
+import {
+  ATTESTATION_HEADER,
+  decodeAttestationHeader,
+  executionResultHash,
+  verifyExecutionAttestation,
+} from "../src/attestations.js";
+import { REPLAY_HEADER, requireSolaceReceipt, withSolaceReceipt } from "../src/executorSdk.js";
+import { MemoryIdempotencyStore } from "../src/idempotency.js";
+import { execute, intent, keyPair, mintReceipt } from "./helpers.js";
+
+describe("requireSolaceReceipt", () => {
+  const adapter = keyPair();
+  const executor = keyPair();
+  let server: Server;
+  let base = "";
+
+  before(async () => {
+    const app = express();
+    const guard = requireSolaceReceipt({
+      service: "payments",
+      keys: adapter.publicKeyPem,
+      idempotencyStore: new MemoryIdempotencyStore(),
+      attestationKey: { privateKeyPem: executor.privateKeyPem },
+    });
+    const byExecute = requireSolaceReceipt({
+      service: "payments",
+      keys: adapter.publicKeyPem,
+      idempotencyStore: new MemoryIdempotencyStore(),
+      idempotencyKey: "executeHash",
+      attestationKey: { privateKeyPem: executor.privateKeyPem },
+    });
+    app.use(express.json());
+    app.post("/by-execute", byExecute, (_req, res) => void res.json({ executed: true }));
+    app.post("/json", guard, (_req, res) => void res.status(201).json({ executed: true }));
+    app.post("/send", guard, (_req, res) => void res.send("done"));
+    app.post("/status", guard, (_req, res) => void res.sendStatus(202));
+    app.post("/stream", guard, (_req, res) => {
+      res.status(200).type("application/json");
+      res.write('{"parts":');
+      res.end(Buffer.from("[1,2]}"));
+    });
+
+    server = app.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  function attested(res: Response, text: string, receipt: { receiptId: string; executeHash: string }) {
+    const attestation = decodeAttestationHeader(res.headers.get(ATTESTATION_HEADER) ?? "");
+    assert.ok(attestation);
+    return verifyExecutionAttestation({
+      attestation,
+      executorPublicKeyPem: executor.publicKeyPem,
+      receipt,
+      forwardStatus: res.status,
+      resultHash: executionResultHash(text),
+    });
+  }
+
+  async function post(path: string, header: string) {
+    const res = await fetch(base + path, {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-solace-receipt": header },
+      body: JSON.stringify({ intent, execute }),
+    });
+    return { res, text: await res.text() };
+  }
+
+  for (const [path, status, text] of [
+    ["/json", 201, '{"executed":true}'],
+    ["/send", 200, "done"],
+    ["/status", 202, "Accepted"],
+    ["/stream", 200, '{"parts":[1,2]}'],
+  ] as const) {
+    it(`stores and attests what ${path} sends`, async () => {
+      const { receipt, header } = mintReceipt(adapter.privateKeyPem);
+
+      const first = await post(path, header);
+      assert.deepEqual([first.res.status, first.text], [status, text]);
+      assert.equal(attested(first.res, first.text, receipt).ok, true);
+
+      // The replay returns the stored bytes, content-type and attestation
+      const replay = await post(path, header);
+      assert.equal(replay.res.headers.get(REPLAY_HEADER), "true");
+      assert.deepEqual([replay.res.status, replay.text], [status, text]);
+      assert.equal(replay.res.headers.get("content-type"), first.res.headers.get("content-type"));
+      assert.equal(attested(replay.res, replay.text, receipt).ok, true);
+      assert.equal(replay.res.headers.get(ATTESTATION_HEADER), first.res.headers.get(ATTESTATION_HEADER));
+    });
+  }
+
+  it("replays the original attestation, never one for a receipt that did not execute", async () => {
+    const first = mintReceipt(adapter.privateKeyPem);
+    const second = mintReceipt(adapter.privateKeyPem);
+
+    const executed = await post("/by-execute", first.header);
+    const replay = await post("/by-execute", second.header);
+
+    assert.equal(replay.res.headers.get(REPLAY_HEADER), "true");
+    assert.equal(replay.res.headers.get(ATTESTATION_HEADER), executed.res.headers.get(ATTESTATION_HEADER));
+    assert.equal(attested(replay.res, replay.text, first.receipt).ok, true);
+    assert.equal(attested(replay.res, replay.text, second.receipt).reason, "attestation_receipt_mismatch");
+  });
+});
+
+describe("withSolaceReceipt", () => {
+  it("replays the stored bytes with the stored attestation", async () => {
+    const adapter = keyPair();
+    const executor = keyPair();
+    const handler = withSolaceReceipt(
+      {
+        service: "payments",
+        keys: adapter.publicKeyPem,
+        idempotencyStore: new MemoryIdempotencyStore(),
+        attestationKey: { privateKeyPem: executor.privateKeyPem },
+      },
+      () => new Response("refunded", { status: 201, headers: { "content-type": "text/plain" } })
+    );
+    const { header } = mintReceipt(adapter.privateKeyPem);
+    const call = () =>
+      handler(
+        new Request("http://executor/", {
+          method: "POST",
+          headers: { "content-type": "application/json", "x-solace-receipt": header },
+          body: JSON.stringify({ intent, execute }),
+        })
+      );
+
+    const first = await call();
+    const replay = await call();
+    assert.equal(replay.headers.get(REPLAY_HEADER), "true");
+    assert.deepEqual([replay.status, replay.headers.get("content-type"), await replay.text()], [201, "text/plain", "refunded"]);
+    assert.ok(first.headers.get(ATTESTATION_HEADER));
+    assert.equal(replay.headers.get(ATTESTATION_HEADER), first.headers.get(ATTESTATION_HEADER));
+  });
+});
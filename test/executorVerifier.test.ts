@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { verifyExecutorRequest } from "../src/executorVerifier.js";
+import { withSolaceReceipt } from "../src/executorSdk.js";
+import { MemoryIdempotencyStore } from "../src/idempotency.js";
+import { execute, intent, keyPair, mintReceipt } from "./helpers.js";
+
+const adapter = keyPair();
+
+function verify(header: string, body: { execute: unknown; intent?: unknown }) {
+  return verifyExecutorRequest({
+    receiptHeader: header,
+    receiptPublicKeyPem: adapter.publicKeyPem,
+    expectedService: "payments",
+    requireIntent: true,
+    ...body,
+  });
+}
+
+describe("verifyExecutorRequest", () => {
+  it("accepts a receipt bound to execute and intent", () => {
+    const { header } = mintReceipt(adapter.privateKeyPem);
+    const v = verify(header, { execute, intent });
+
+    assert.equal(v.ok, true);
+    assert.equal(v.verified?.intentVerified, true);
+  });
+
+  it("rejects a swapped execute payload or intent", () => {
+    const { header } = mintReceipt(adapter.privateKeyPem);
+
+    assert.equal(verify(header, { execute: { ...execute, amount: 9999 }, intent }).reason, "execute_hash_mismatch");
+    assert.equal(
+      verify(header, { execute, intent: { ...intent, actor: { id: "someone-else" } } }).reason,
+      "intent_hash_mismatch"
+    );
+    assert.equal(verify(header, { execute }).reason, "missing_intent");
+  });
+
+  it("rejects payloads without a canonical form instead of throwing", () => {
+    const { header } = mintReceipt(adapter.privateKeyPem);
+    const loneSurrogate = JSON.parse('"\\ud800"');
+
+    assert.equal(verify(header, { execute: { ...execute, memo: loneSurrogate }, intent }).reason, "invalid_execute_payload");
+    assert.equal(
+      verify(header, { execute, intent: { ...intent, context: loneSurrogate } }).reason,
+      "invalid_intent_payload"
+    );
+  });
+
+  it("rejects a receipt header with non-canonicalizable fields as a bad signature", () => {
+    const { receipt } = mintReceipt(adapter.privateKeyPem);
+    const header = Buffer.from(JSON.stringify({ ...receipt, intent: JSON.parse('"\\udc00"') })).toString("base64");
+
+    assert.equal(verify(header, { execute, intent }).reason, "invalid_receipt_signature");
+  });
+});
+
+describe("withSolaceReceipt", () => {
+  it("answers 403 DENY for non-canonicalizable payloads", async () => {
+    const handler = withSolaceReceipt(
+      { service: "payments", keys: adapter.publicKeyPem, idempotencyStore: new MemoryIdempotencyStore() },
+      () => new Response("{}")
+    );
+    const { header } = mintReceipt(adapter.privateKeyPem);
+
+    const res = await handler(
+      new Request("http://executor/", {
+        method: "POST",
+        headers: { "content-type": "application/json", "x-solace-receipt": header },
+        body: `{"intent":${JSON.stringify(intent)},"execute":{"action":"payments:refund","memo":"\\ud800"}}`,
+      })
+    );
+
+    assert.equal(res.status, 403);
+    assert.deepEqual(await res.json(), { decision: "DENY", reason: "invalid_execute_payload" });
+  });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ForwardingError } from "../src/errors.js";
+import { forwardToExecutor } from "../src/forwarding.js";
+import type { AdapterForwardingConfig, ForwardTarget } from "../src/types.js";
+import { adapterConfig, envConfig, execute, intent, keyPair, mintReceipt, serveJson } from "./helpers.js";
+
+const { receipt } = mintReceipt(keyPair().privateKeyPem);
+
+function forward(cfg: AdapterForwardingConfig) {
+  return forwardToExecutor({ cfg, service: "payments", operation: "refund", envelope: { intent, execute }, receipt });
+}
+
+const target = (fields: Partial<ForwardTarget> & { url: string }) =>
+  adapterConfig({ targets: { payments: { service: "payments", ...fields } } });
+
+const failsWith = (reason: string) => (e: unknown) => e instanceof ForwardingError && e.reason === reason;
+
+describe("forwardToExecutor limits", () => {
+  let slow: Awaited<ReturnType<typeof serveJson>>;
+  let large: Awaited<ReturnType<typeof serveJson>>;
+  let calls = 0;
+
+  before(async () => {
+    slow = await serveJson(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      return { body: { ok: true } };
+    });
+    large = await serveJson(() => {
+      calls++;
+      return { body: { data: "x".repeat(200) } };
+    });
+  });
+  after(async () => {
+    await slow.close();
+    await large.close();
+  });
+
+  it("classifies a response slower than timeoutMs as executor_timeout", async () => {
+    await assert.rejects(forward(target({ url: slow.url, timeoutMs: 100 })), failsWith("executor_timeout"));
+  });
+
+  it("classifies a refused connection as executor_unreachable", async () => {
+    await assert.rejects(forward(target({ url: "http://127.0.0.1:9" })), failsWith("executor_unreachable"));
+  });
+
+  it("rejects a body over maxResponseBytes without re-sending", async () => {
+    calls = 0;
+    await assert.rejects(
+      forward(target({ url: large.url, maxResponseBytes: 64, retries: 2, retryBackoffMs: 1 })),
+      failsWith("executor_response_too_large")
+    );
+    assert.equal(calls, 1);
+
+    assert.equal((await forward(target({ url: large.url, maxResponseBytes: 4096 }))).status, 200);
+  });
+
+  it("applies per-target timeoutMs and maxResponseBytes over the env defaults", async () => {
+    const cfg = envConfig({
+      SOLACE_ADAPTER_FORWARD_TIMEOUT_MS: "100",
+      SOLACE_ADAPTER_FORWARD_MAX_RESPONSE_BYTES: "64",
+      SOLACE_ADAPTER_TARGETS_JSON: JSON.stringify({
+        payments: { url: large.url },
+        refunds: { url: slow.url, timeoutMs: 5000, maxResponseBytes: 4096 },
+      }),
+    });
+    assert.deepEqual(
+      [cfg.targets.payments.timeoutMs, cfg.targets.payments.maxResponseBytes],
+      [100, 64]
+    );
+    assert.deepEqual(
+      [cfg.targets.refunds.timeoutMs, cfg.targets.refunds.maxResponseBytes],
+      [5000, 4096]
+    );
+
+    await assert.rejects(forward(cfg), failsWith("executor_response_too_large"));
+    const refunds = { ...cfg, targets: { payments: { ...cfg.targets.refunds, service: "payments" } } };
+    assert.equal((await forward(refunds)).status, 200);
+  });
+});
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { computeExecuteHash, computeIntentHash } from "../src/canonical.js";
+import { gateAndForward } from "../src/gate.js";
+import type { AdapterForwardingConfig } from "../src/types.js";
+import { acceptance, adapterConfig, coreDecision, execute, intent, keyPair, serveJson } from "./helpers.js";
+
+const local = { executeHash: computeExecuteHash(execute), intentHash: computeIntentHash(intent) };
+
+describe("strict Core hashes", () => {
+  const coreKey = keyPair();
+  let core: Awaited<ReturnType<typeof serveJson>>;
+  let executor: Awaited<ReturnType<typeof serveJson>>;
+  let coreHashes = local;
+  let forwarded = 0;
+
+  before(async () => {
+    core = await serveJson(() => ({ body: coreDecision(coreKey.privateKeyPem, coreHashes) }));
+    executor = await serveJson(() => {
+      forwarded++;
+      return { body: { ok: true } };
+    });
+  });
+  after(async () => {
+    await core.close();
+    await executor.close();
+  });
+
+  const gate = (overrides: Partial<AdapterForwardingConfig> = {}) =>
+    gateAndForward(
+      adapterConfig({
+        core: { coreBaseUrl: core.url, timeoutMs: 2000, publicKeys: { "core-1": coreKey.publicKeyPem } },
+        targets: { payments: { service: "payments", url: executor.url } },
+        ...overrides,
+      }),
+      { intent, execute, acceptance: acceptance() }
+    );
+
+  it("forwards when Core signs the locally computed hashes", async () => {
+    coreHashes = local;
+    const out = await gate();
+    assert.equal(out.decision, "PERMIT");
+    assert.equal(out.receipt?.executeHash, local.executeHash);
+  });
+
+  for (const field of ["executeHash", "intentHash"] as const) {
+    it(`denies without forwarding when Core's ${field} differs (default strict)`, async () => {
+      coreHashes = { ...local, [field]: "f".repeat(64) };
+      forwarded = 0;
+      const out = await gate();
+
+      assert.deepEqual([out.decision, out.reason], ["DENY", "core_hash_mismatch"]);
+      assert.deepEqual([out.executeHash, out.intentHash], [local.executeHash, local.intentHash]);
+      assert.equal(out.receipt, undefined);
+      assert.equal(forwarded, 0);
+    });
+  }
+
+  it("binds Core's hashes into the receipt when strictCoreHashes is false", async () => {
+    coreHashes = { ...local, executeHash: "f".repeat(64) };
+    forwarded = 0;
+    const out = await gate({ strictCoreHashes: false });
+
+    assert.equal(out.decision, "PERMIT");
+    assert.equal(out.receipt?.executeHash, "f".repeat(64));
+    assert.equal(forwarded, 1);
+  });
+});
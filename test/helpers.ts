@@ -0,0 +1,169 @@
+// test/helpers.ts
+// Shared fixtures for the node:test suites (npm test).
+
+import crypto from "crypto";
+import fs from "fs";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { computeExecuteHash, computeIntentHash } from "../src/canonical.js";
+import { loadAdapterConfigFromEnv } from "../src/config.js";
+import { coreDecisionSigningMaterial, type CoreSignedDecision } from "../src/coreSignature.js";
+import { encodeReceiptHeader } from "../src/forwarding.js";
+import { signReceipt, type ReceiptFields } from "../src/receipt.js";
+import type { Acceptance, AdapterForwardingConfig, Receipt } from "../src/types.js";
+
+export function keyPair(): { privateKeyPem: string; publicKeyPem: string } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+  return {
+    privateKeyPem: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+    publicKeyPem: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+export function tempDir(prefix = "solace-test-"): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+}
+
+export function receiptFields(overrides: Record<string, unknown> = {}) {
+  return {
+    adapterId: "adapter-1",
+    service: "payments",
+    actorId: "actor-1",
+    intent: "refund",
+    executeHash: "0".repeat(64),
+    intentHash: "1".repeat(64),
+    receiptTtlSeconds: 30,
+    ...overrides,
+  };
+}
+
+export const execute = { action: "payments:refund", amount: 1250, currency: "USD" };
+export const intent = { actor: { id: "actor-1" }, intent: "refund" };
+
+/**
+ * Signed receipt (v1 unless overridden) binding execute / intent, plus
+ * its x-solace-receipt header value.
+ */
+export function mintReceipt(
+  privateKeyPem: string,
+  overrides: Partial<ReceiptFields> & { kid?: string; execute?: unknown; intent?: unknown } = {}
+): { receipt: Receipt; header: string } {
+  const { execute: e = execute, intent: i = intent, ...fields } = overrides;
+  const receipt = signReceipt({
+    ...receiptFields({ executeHash: computeExecuteHash(e), intentHash: computeIntentHash(i) }),
+    ...fields,
+    receiptPrivateKeyPem: privateKeyPem,
+  } as ReceiptFields & { receiptPrivateKeyPem: string });
+  return { receipt, header: encodeReceiptHeader(receipt) };
+}
+
+/**
+ * Minimal adapter config: one PEM receipt key, no targets unless given.
+ */
+export function adapterConfig(overrides: Partial<AdapterForwardingConfig> = {}): AdapterForwardingConfig {
+  const k = keyPair();
+  return {
+    adapterId: "adapter-1",
+    receiptPrivateKeyPem: k.privateKeyPem,
+    receiptPublicKeyPem: k.publicKeyPem,
+    core: { coreBaseUrl: "http://127.0.0.1:9", timeoutMs: 2000, publicKeys: {} },
+    targets: {},
+    ...overrides,
+  };
+}
+
+/**
+ * Local HTTP server answering every request with handler(req) (JSON),
+ * for executors, Core and feeds.
+ */
+export async function serveJson(
+  handler: (req: { method: string; url: string; headers: http.IncomingHttpHeaders; body: string }) =>
+    | { status?: number; body: unknown; headers?: Record<string, string> }
+    | Promise<{ status?: number; body: unknown; headers?: Record<string, string> }>
+): Promise<{ url: string; close(): Promise<void> }> {
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", async () => {
+      const out = await handler({ method: req.method || "GET", url: req.url || "/", headers: req.headers, body });
+      res.writeHead(out.status ?? 200, { "content-type": "application/json", ...(out.headers || {}) });
+      res.end(out.body === undefined ? "" : JSON.stringify(out.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Unsigned acceptance matching execute / intent; passes the adapter's
+ * local pre-checks (Core, stubbed in tests, owns the signature).
+ */
+export function acceptance(overrides: Partial<Acceptance> = {}): Acceptance {
+  const now = Date.now();
+  return {
+    issuer: "issuer-1",
+    actorId: "actor-1",
+    intent: "refund",
+    executeHash: computeExecuteHash(execute),
+    issuedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + 60000).toISOString(),
+    signature: "test",
+    ...overrides,
+  };
+}
+
+/**
+ * Core /v1/execute response body signed with privateKeyPem under keyId
+ * "core-1" (pair it with core.publicKeys { "core-1": publicKeyPem }).
+ */
+export function coreDecision(
+  privateKeyPem: string,
+  fields: Partial<CoreSignedDecision> & { reason?: string }
+): Record<string, unknown> {
+  const { reason, ...rest } = fields;
+  const now = Date.now();
+  const decision: CoreSignedDecision = {
+    decision: "PERMIT",
+    authorityKeyId: null,
+    issuedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + 60000).toISOString(),
+    time: new Date(now).toISOString(),
+    keyId: "core-1",
+    ...rest,
+  };
+  const signature = crypto
+    .sign(null, Buffer.from(coreDecisionSigningMaterial(decision), "utf8"), privateKeyPem)
+    .toString("base64");
+  return { ...decision, reason, signature };
+}
+
+/**
+ * loadAdapterConfigFromEnv with env set on top of a minimal valid
+ * environment (one receipt key, one Core key), restored afterwards.
+ */
+export function envConfig(env: Record<string, string>): AdapterForwardingConfig {
+  const receipt = keyPair();
+  const full: Record<string, string> = {
+    SOLACE_ADAPTER_ID: "adapter-1",
+    SOLACE_CORE_BASE_URL: "http://127.0.0.1:9",
+    SOLACE_CORE_PUBLIC_KEY_PEM: keyPair().publicKeyPem,
+    SOLACE_ADAPTER_RECEIPT_PRIVATE_KEY_PEM: receipt.privateKeyPem,
+    SOLACE_ADAPTER_RECEIPT_PUBLIC_KEY_PEM: receipt.publicKeyPem,
+    SOLACE_ADAPTER_TARGETS_JSON: "{}",
+    ...env,
+  };
+  const saved = { ...process.env };
+  Object.assign(process.env, full);
+  try {
+    return loadAdapterConfigFromEnv();
+  } finally {
+    for (const k of Object.keys(full)) delete process.env[k];
+    Object.assign(process.env, saved);
+  }
+}
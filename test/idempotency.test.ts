@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ConfigError } from "../src/errors.js";
+import { MemoryIdempotencyStore, SqliteIdempotencyStore, type SqliteDatabase } from "../src/idempotency.js";
+import type { IdempotencyResult } from "../src/types.js";
+
+const inAMinute = () => new Date(Date.now() + 60_000).toISOString();
+const completedAt = "2026-10-01T00:00:00.000Z";
+const result: IdempotencyResult = { status: 201, body: { executed: true }, completedAt };
+
+describe("MemoryIdempotencyStore", () => {
+  it("claims all keys once and reports the holder of any of them", async () => {
+    const store = new MemoryIdempotencyStore();
+    assert.deepEqual(await store.claim(["r1", "e1"], inAMinute()), { state: "claimed" });
+
+    // A second receipt for the same execute collides on the shared key
+    assert.deepEqual(await store.claim(["r2", "e1"], inAMinute()), { state: "pending", key: "e1" });
+    assert.deepEqual(await store.claim(["r3", "e3"], inAMinute()), { state: "claimed" });
+  });
+
+  it("returns a copy of the completed result to later claims", async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.claim(["r1"], inAMinute());
+    const stored = { status: 201, body: { executed: true }, completedAt };
+    await store.complete(["r1"], stored);
+    stored.body.executed = false;
+
+    assert.deepEqual(await store.claim(["r1"], inAMinute()), {
+      state: "completed",
+      key: "r1",
+      result: { status: 201, body: { executed: true }, completedAt },
+    });
+  });
+
+  it("releases pending claims on fail but keeps completed ones", async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.claim(["pending"], inAMinute());
+    await store.claim(["done"], inAMinute());
+    await store.complete(["done"], result);
+    await store.fail(["pending", "done"]);
+
+    assert.equal((await store.claim(["pending"], inAMinute())).state, "claimed");
+    assert.equal((await store.claim(["done"], inAMinute())).state, "completed");
+  });
+
+  it("treats expired records as absent and cleans them up", async () => {
+    const store = new MemoryIdempotencyStore();
+    await store.claim(["a"], new Date(Date.now() + 1000).toISOString());
+    await store.claim(["b"], inAMinute());
+
+    assert.equal(await store.cleanup(new Date(Date.now() + 5000)), 1);
+    assert.equal(await store.cleanup(new Date(Date.now() + 5000)), 0);
+    assert.equal((await store.claim(["b"], inAMinute())).state, "pending");
+
+    await store.claim(["c"], new Date(Date.now() - 1).toISOString());
+    assert.equal((await store.claim(["c"], inAMinute())).state, "claimed");
+  });
+
+  it("rejects unparseable expiries", async () => {
+    await assert.rejects(new MemoryIdempotencyStore().claim(["a"], "later"), ConfigError);
+  });
+});
+
+describe("SqliteIdempotencyStore", () => {
+  it("rejects table names that are not plain identifiers", () => {
+    const db = { exec: () => undefined, prepare: () => assert.fail() } as unknown as SqliteDatabase;
+    assert.throws(() => new SqliteIdempotencyStore(db, { table: "x; DROP TABLE y" }), ConfigError);
+  });
+});
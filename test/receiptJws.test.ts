@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { describe, it } from "node:test";
+import { verifyExecutorRequest } from "../src/executorVerifier.js";
+import { RECEIPT_JWS_TYP, decodeReceiptJws, isCompactJws } from "../src/receiptJws.js";
+import { execute, intent, keyPair, mintReceipt } from "./helpers.js";
+
+const adapter = keyPair();
+
+const b64url = (value: unknown) => Buffer.from(JSON.stringify(value), "utf8").toString("base64url");
+
+function verify(receiptHeader: string) {
+  return verifyExecutorRequest({
+    receiptHeader,
+    receiptPublicKeyPem: adapter.publicKeyPem,
+    expectedService: "payments",
+    execute,
+    intent,
+  });
+}
+
+describe("JWS receipts", () => {
+  it("travel as compact JWS that plain Ed25519 verification accepts", () => {
+    const { receipt, header } = mintReceipt(adapter.privateKeyPem, { signatureFormat: "jws", kid: "k1" });
+    assert.equal(isCompactJws(header), true);
+
+    const [h, p, s] = header.split(".");
+    assert.deepEqual(JSON.parse(Buffer.from(h, "base64url").toString()), { alg: "EdDSA", kid: "k1", typ: RECEIPT_JWS_TYP });
+    assert.equal(crypto.verify(null, Buffer.from(`${h}.${p}`), adapter.publicKeyPem, Buffer.from(s, "base64url")), true);
+
+    const v = verify(header);
+    assert.equal(v.ok, true);
+    assert.equal(v.verified?.receiptId, receipt.receiptId);
+  });
+
+  it("is auto-detected next to base64 JSON receipts", () => {
+    assert.equal(verify(mintReceipt(adapter.privateKeyPem).header).ok, true);
+    assert.equal(verify(mintReceipt(adapter.privateKeyPem, { signatureFormat: "jws" }).header).ok, true);
+  });
+
+  it("rejects tampered payloads, other algorithms and kid disagreements", () => {
+    const { header } = mintReceipt(adapter.privateKeyPem, { signatureFormat: "jws", kid: "k1" });
+    const [h, p, s] = header.split(".");
+    const payload = JSON.parse(Buffer.from(p, "base64url").toString());
+
+    assert.equal(verify(`${h}.${b64url({ ...payload, actorId: "actor-2" })}.${s}`).ok, false);
+    assert.equal(decodeReceiptJws(`${b64url({ alg: "none", kid: "k1", typ: RECEIPT_JWS_TYP })}.${p}.${s}`).reason, "invalid_receipt_jws_alg");
+    assert.equal(decodeReceiptJws(`${b64url({ alg: "EdDSA", kid: "k1", typ: "JWT" })}.${p}.${s}`).reason, "invalid_receipt_jws_typ");
+    assert.equal(decodeReceiptJws(`${b64url({ alg: "EdDSA", kid: "k2", typ: RECEIPT_JWS_TYP })}.${p}.${s}`).reason, "receipt_jws_kid_mismatch");
+  });
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { verifyExecutorRequest } from "../src/executorVerifier.js";
+import {
+  receiptKeyThumbprint,
+  receiptKeysFromJwks,
+  receiptKeysToJwks,
+  selectSigningKey,
+  selectVerificationKey,
+} from "../src/receiptKeys.js";
+import type { ReceiptSigningKey } from "../src/types.js";
+import { execute, intent, keyPair, mintReceipt } from "./helpers.js";
+
+describe("receipt key rotation", () => {
+  const old = keyPair();
+  const next = keyPair();
+  const keys: ReceiptSigningKey[] = [
+    { kid: "2026-09", status: "retired", ...old, notBefore: "2026-09-01T00:00:00.000Z" },
+    { kid: "2026-10", status: "active", ...next, notBefore: "2026-10-01T00:00:00.000Z" },
+  ];
+
+  // What an executor gets from GET /v1/receipt-keys
+  const published = receiptKeysFromJwks(JSON.parse(JSON.stringify(receiptKeysToJwks(keys))));
+
+  it("signs with the newest active key and publishes retired ones", () => {
+    assert.equal(selectSigningKey(keys).kid, "2026-10");
+    assert.deepEqual(
+      published.map((k) => [k.kid, k.status]),
+      [
+        ["2026-09", "retired"],
+        ["2026-10", "active"],
+      ]
+    );
+    assert.equal(published[0].publicKeyPem.trim(), old.publicKeyPem.trim());
+  });
+
+  it("verifies receipts from both keys by kid through the published set", () => {
+    for (const [kid, pair] of [
+      ["2026-09", old],
+      ["2026-10", next],
+    ] as const) {
+      const { header } = mintReceipt(pair.privateKeyPem, { kid });
+      const v = verifyExecutorRequest({
+        receiptHeader: header,
+        receiptKeys: published,
+        expectedService: "payments",
+        execute,
+        intent,
+      });
+      assert.equal(v.ok, true, kid);
+    }
+
+    // Signed by the old key but claiming the new kid
+    const { header } = mintReceipt(old.privateKeyPem, { kid: "2026-10" });
+    const forged = verifyExecutorRequest({
+      receiptHeader: header,
+      receiptKeys: published,
+      expectedService: "payments",
+      execute,
+      intent,
+    });
+    assert.equal(forged.ok, false);
+  });
+
+  it("rejects unknown kids, missing kids with several keys, and issue times outside the window", () => {
+    assert.equal(selectVerificationKey(published, { kid: "nope" }).reason, "unknown_receipt_kid");
+    assert.equal(selectVerificationKey(published, {}).reason, "missing_receipt_kid");
+    assert.equal(
+      selectVerificationKey(published, { kid: "2026-10", issuedAt: "2026-09-15T00:00:00.000Z" }).reason,
+      "receipt_key_not_valid_at_issue"
+    );
+    assert.equal(selectVerificationKey([published[0]], {}).ok, true);
+  });
+
+  it("defaults kids to the RFC 7638 thumbprint", () => {
+    const kid = receiptKeyThumbprint(old.publicKeyPem);
+    assert.match(kid, /^[A-Za-z0-9_-]{43}$/);
+    assert.equal(receiptKeyThumbprint(old.publicKeyPem), kid);
+    assert.notEqual(receiptKeyThumbprint(next.publicKeyPem), kid);
+  });
+});
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import type http from "http";
+import { PemReceiptSigner, RemoteReceiptSigner } from "../src/receiptSigner.js";
+import { signReceiptWith, verifyReceipt } from "../src/receipt.js";
+import { createSignerServer, listen } from "../scripts/stand-in-signer.js";
+import { keyPair, receiptFields, tempDir } from "./helpers.js";
+
+describe("PemReceiptSigner", () => {
+  it("signs with the active key and sets its kid", async () => {
+    const k = keyPair();
+    const keys = [{ kid: "k1", status: "active" as const, ...k }];
+    const receipt = await signReceiptWith(new PemReceiptSigner(keys), receiptFields());
+
+    assert.equal(receipt.kid, "k1");
+    assert.equal(verifyReceipt({ receipt, receiptKeys: keys }).ok, true);
+  });
+
+  it("prefers the newest active key whose window has started", async () => {
+    const old = keyPair();
+    const next = keyPair();
+    const future = keyPair();
+    const signer = new PemReceiptSigner([
+      { kid: "old", status: "active", notBefore: "2020-01-01T00:00:00Z", ...old },
+      { kid: "next", status: "active", notBefore: "2021-01-01T00:00:00Z", ...next },
+      { kid: "future", status: "active", notBefore: "2999-01-01T00:00:00Z", ...future },
+    ]);
+
+    assert.deepEqual(await signer.currentKey(), { kid: "next" });
+  });
+
+  it("refuses keys without a private key", async () => {
+    const k = keyPair();
+    assert.throws(() => new PemReceiptSigner([{ kid: "v", status: "active", publicKeyPem: k.publicKeyPem }]));
+
+    const signer = new PemReceiptSigner([{ kid: "k1", status: "active", ...k }]);
+    await assert.rejects(signer.sign({ kid: "unknown", material: "x" }), /receipt_signing_key_unavailable/);
+  });
+});
+
+describe("RemoteReceiptSigner (stand-in daemon)", () => {
+  const kid = "stand-in-1";
+  const daemon = keyPair();
+  const receiptKeys = [{ kid, status: "active" as const, publicKeyPem: daemon.publicKeyPem }];
+  let dir: string;
+  let socket: string;
+  let server: http.Server;
+
+  before(async () => {
+    dir = tempDir();
+    socket = path.join(dir, "signer.sock");
+    server = createSignerServer({ privateKeyPem: daemon.privateKeyPem, kid, token: "t" });
+    await listen(server, { socket });
+  });
+
+  after(() => {
+    server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("signs over a Unix socket with the daemon's kid", async () => {
+    const signer = new RemoteReceiptSigner({ socketPath: socket, bearerToken: "t", verifyKeys: receiptKeys });
+    const receipt = await signReceiptWith(signer, receiptFields());
+
+    assert.equal(receipt.kid, kid);
+    assert.equal(verifyReceipt({ receipt, receiptKeys }).ok, true);
+  });
+
+  it("fails closed when the signature does not match the published key", async () => {
+    const signer = new RemoteReceiptSigner({
+      socketPath: socket,
+      bearerToken: "t",
+      verifyKeys: [{ kid, status: "active", publicKeyPem: keyPair().publicKeyPem }],
+    });
+    await assert.rejects(signReceiptWith(signer, receiptFields()), /receipt_signer_signature_invalid/);
+  });
+
+  it("fails closed without the bearer token", async () => {
+    const signer = new RemoteReceiptSigner({ socketPath: socket });
+    await assert.rejects(signReceiptWith(signer, receiptFields()), /receipt_signer_http_error/);
+  });
+
+  it("fails closed when the daemon is unreachable", async () => {
+    const signer = new RemoteReceiptSigner({ socketPath: path.join(dir, "missing.sock") });
+    await assert.rejects(signReceiptWith(signer, receiptFields()), /receipt_signer_unreachable/);
+  });
+});
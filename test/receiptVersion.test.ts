@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { computeExecuteHash, computeIntentHash } from "../src/canonical.js";
+import { verifyExecutorRequest } from "../src/executorVerifier.js";
+import { gateAndForward } from "../src/gate.js";
+import { verifyReceipt } from "../src/receipt.js";
+import type { AdapterForwardingConfig } from "../src/types.js";
+import { acceptance, adapterConfig, coreDecision, execute, intent, keyPair, mintReceipt, serveJson } from "./helpers.js";
+
+describe("minted receipt version", () => {
+  const coreKey = keyPair();
+  let core: Awaited<ReturnType<typeof serveJson>>;
+  let executor: Awaited<ReturnType<typeof serveJson>>;
+  let receiptHeader = "";
+
+  before(async () => {
+    core = await serveJson(() => ({
+      body: coreDecision(coreKey.privateKeyPem, {
+        executeHash: computeExecuteHash(execute),
+        intentHash: computeIntentHash(intent),
+      }),
+    }));
+    executor = await serveJson((req) => {
+      receiptHeader = String(req.headers["x-solace-receipt"]);
+      return { body: { ok: true } };
+    });
+  });
+  after(async () => {
+    await core.close();
+    await executor.close();
+  });
+
+  async function gate(overrides: Partial<AdapterForwardingConfig> = {}) {
+    const cfg = adapterConfig({
+      core: { coreBaseUrl: core.url, timeoutMs: 2000, publicKeys: { "core-1": coreKey.publicKeyPem } },
+      targets: { payments: { service: "payments", url: executor.url, audience: "payments-executor" } },
+      ...overrides,
+    });
+    const result = await gateAndForward(cfg, { intent, execute, acceptance: acceptance() }, { organizationId: "org-1" });
+    assert.equal(result.forwardStatus, 200);
+    return { cfg, result };
+  }
+
+  const verify = (cfg: AdapterForwardingConfig, expectedAudience?: string) =>
+    verifyExecutorRequest({
+      receiptHeader,
+      receiptPublicKeyPem: cfg.receiptPublicKeyPem,
+      expectedService: "payments",
+      expectedAudience,
+      execute,
+      intent,
+    });
+
+  it("defaults to v1, which executors without expectedAudience accept", async () => {
+    const { cfg, result } = await gate();
+    assert.equal(result.receipt?.v, 1);
+    assert.equal(result.receipt?.audience, undefined);
+    assert.equal(verify(cfg).ok, true);
+  });
+
+  it("mints v2 only when opted in, binding operation, tenant and audience", async () => {
+    const { cfg, result } = await gate({ receiptVersion: 2 });
+    assert.equal(result.receipt?.v, 2);
+    assert.deepEqual(
+      [result.receipt?.operation, result.receipt?.organizationId, result.receipt?.audience],
+      ["refund", "org-1", "payments-executor"]
+    );
+
+    assert.equal(verify(cfg).reason, "missing_expected_audience");
+    assert.equal(verify(cfg, "other-executor").reason, "receipt_audience_mismatch");
+    assert.equal(verify(cfg, "payments-executor").ok, true);
+  });
+});
+
+describe("v1 migration window", () => {
+  const adapter = keyPair();
+  const { receipt } = mintReceipt(adapter.privateKeyPem);
+  const issuedAt = new Date(receipt.issuedAt).getTime();
+  const verify = (now: number, acceptV1Until: number) =>
+    verifyReceipt({
+      receipt,
+      receiptPublicKeyPem: adapter.publicKeyPem,
+      now: new Date(now),
+      acceptV1Until: new Date(acceptV1Until).toISOString(),
+    });
+
+  it("accepts v1 receipts until acceptV1Until, judged by now rather than issuedAt", () => {
+    assert.equal(verify(issuedAt + 1000, issuedAt + 5000).ok, true);
+    // Issued before the cutoff, presented after it
+    assert.equal(verify(issuedAt + 10000, issuedAt + 5000).reason, "receipt_v1_not_accepted");
+    const off = verifyReceipt({ receipt, receiptPublicKeyPem: adapter.publicKeyPem, acceptV1: false });
+    assert.equal(off.reason, "receipt_v1_not_accepted");
+  });
+});
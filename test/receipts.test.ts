@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { canonicalize, computeExecuteHash, computeIntentHash, sha256Hex } from "../src/canonical.js";
+import { gateAndForward } from "../src/gate.js";
+import { findReceiptsByExecuteHash, getReceiptRecord } from "../src/receipts.js";
+import { MemoryRecordStore } from "../src/stores.js";
+import type { ReceiptRecord } from "../src/types.js";
+import { acceptance, adapterConfig, coreDecision, execute, intent, keyPair, serveJson } from "./helpers.js";
+
+describe("receipt records", () => {
+  const coreKey = keyPair();
+  const executeHash = computeExecuteHash(execute);
+  let core: Awaited<ReturnType<typeof serveJson>>;
+  let executor: Awaited<ReturnType<typeof serveJson>>;
+
+  before(async () => {
+    core = await serveJson(() => ({
+      body: coreDecision(coreKey.privateKeyPem, { executeHash, intentHash: computeIntentHash(intent) }),
+    }));
+    executor = await serveJson(() => ({ status: 201, body: { refunded: true } }));
+  });
+  after(async () => {
+    await core.close();
+    await executor.close();
+  });
+
+  async function gateAs(receipts: MemoryRecordStore<ReceiptRecord>, organizationId?: string, url = executor.url) {
+    const cfg = adapterConfig({
+      core: { coreBaseUrl: core.url, timeoutMs: 2000, publicKeys: { "core-1": coreKey.publicKeyPem } },
+      targets: { payments: { service: "payments", url } },
+    });
+    const out = await gateAndForward(cfg, { intent, execute, acceptance: acceptance() }, { receipts, organizationId });
+    assert.equal(out.decision, "PERMIT");
+    return out.receipt!.receiptId;
+  }
+
+  it("stores the Core decision and updates the record with the forward outcome", async () => {
+    const receipts = new MemoryRecordStore<ReceiptRecord>();
+    const receiptId = await gateAs(receipts, "org-1");
+
+    const record = await getReceiptRecord(receipts, receiptId, { organizationId: "org-1" });
+    assert.ok(record);
+    assert.deepEqual([record.core.decision, record.core.keyId, record.core.signed], ["PERMIT", "core-1", true]);
+    assert.deepEqual([record.forward.outcome, record.forward.attempts], ["delivered", 1]);
+    assert.deepEqual(record.forward.executor, {
+      status: 201,
+      bodyHash: sha256Hex(canonicalize({ refunded: true })),
+      bodyPreview: '{"refunded":true}',
+    });
+  });
+
+  it("records an unknown outcome when the executor cannot be reached", async () => {
+    const receipts = new MemoryRecordStore<ReceiptRecord>();
+    const receiptId = await gateAs(receipts, "org-1", "http://127.0.0.1:9");
+
+    const record = await getReceiptRecord(receipts, receiptId, { organizationId: "org-1" });
+    assert.deepEqual(
+      [record?.forward.outcome, record?.forward.error, record?.forward.executor],
+      ["unknown", "executor_unreachable", undefined]
+    );
+  });
+
+  it("hides another tenant's receipts from lookups and lists", async () => {
+    const receipts = new MemoryRecordStore<ReceiptRecord>();
+    const mine = await gateAs(receipts, "org-1");
+    const theirs = await gateAs(receipts, "org-2");
+    const unscoped = await gateAs(receipts);
+
+    assert.equal(await getReceiptRecord(receipts, theirs, { organizationId: "org-1" }), null);
+    assert.equal(await getReceiptRecord(receipts, unscoped, { organizationId: "org-1" }), null);
+    assert.equal(await getReceiptRecord(receipts, mine, {}), null);
+    assert.equal((await getReceiptRecord(receipts, mine, { organizationId: "org-1" }))?.receiptId, mine);
+
+    const listed = await findReceiptsByExecuteHash(receipts, executeHash, { organizationId: "org-1" });
+    assert.deepEqual(listed.map((r) => r.receiptId), [mine]);
+    assert.deepEqual(await findReceiptsByExecuteHash(receipts, executeHash, { organizationId: "org-3" }), []);
+  });
+});
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { forwardPermitted } from "../src/gate.js";
+import { retryForward } from "../src/retry.js";
+import { FileRecordStore, MemoryRecordStore } from "../src/stores.js";
+import type { ForwardRecord } from "../src/types.js";
+import { adapterConfig, execute, intent, mintReceipt, serveJson, tempDir } from "./helpers.js";
+
+describe("forward retries", () => {
+  let executor: Awaited<ReturnType<typeof serveJson>>;
+  let statuses: number[] = [];
+  let calls = 0;
+
+  before(async () => {
+    executor = await serveJson(async () => {
+      calls++;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const status = statuses.shift() ?? 200;
+      return { status, body: status === 200 ? { ok: true } : { error: "bad_gateway" } };
+    });
+  });
+  after(() => executor.close());
+
+  const cfg = adapterConfig();
+  const withTarget = () => ({
+    ...cfg,
+    targets: { payments: { service: "payments", url: executor.url, retryBackoffMs: 1 } },
+  });
+
+  async function forwardOnce(store: MemoryRecordStore<ForwardRecord> | FileRecordStore<ForwardRecord>) {
+    const { receipt } = mintReceipt(cfg.receiptPrivateKeyPem!);
+    const result = await forwardPermitted(
+      withTarget(),
+      { service: "payments", operation: "refund", envelope: { intent, execute }, receipt },
+      { forwards: store }
+    );
+    return { receipt, result };
+  }
+
+  it("records a final 502/503/504 as unknown, then lets a retry deliver it", async () => {
+    const store = new MemoryRecordStore<ForwardRecord>();
+    statuses = [503];
+
+    const { receipt, result } = await forwardOnce(store);
+    assert.equal(result.forwardOutcome, "unknown");
+    assert.equal(result.forwardError, "executor_gateway_error");
+    assert.equal(result.forwardStatus, 503);
+    assert.equal((await store.get(receipt.receiptId))?.outcome, "unknown");
+
+    const retried = await retryForward(withTarget(), store, { receiptId: receipt.receiptId });
+    assert.deepEqual([retried.forwardOutcome, retried.forwardStatus], ["delivered", 200]);
+
+    const again = await retryForward(withTarget(), store, { receiptId: receipt.receiptId });
+    assert.deepEqual([again.reason, again.replayed], ["already_delivered", true]);
+  });
+
+  it("re-sends once when two replicas retry the same receipt", async () => {
+    const file = path.join(tempDir(), "forwards.jsonl");
+    statuses = [502];
+    const { receipt } = await forwardOnce(new FileRecordStore<ForwardRecord>(file));
+
+    calls = 0;
+    const results = await Promise.all(
+      [1, 2].map(() =>
+        retryForward(withTarget(), new FileRecordStore<ForwardRecord>(file), { receiptId: receipt.receiptId })
+      )
+    );
+
+    assert.equal(calls, 1);
+    assert.deepEqual(results.map((r) => r.reason ?? "").sort(), ["forward_in_progress", "forwarded_after_core_permit"]);
+  });
+
+  it("takes over a pending record only after its lease", async () => {
+    const store = new MemoryRecordStore<ForwardRecord>();
+    const { receipt } = await forwardOnce(store);
+    const record = (await store.get(receipt.receiptId))!;
+    await store.put(receipt.receiptId, { ...record, outcome: "pending", updatedAt: new Date().toISOString() });
+
+    const busy = await retryForward(withTarget(), store, { receiptId: receipt.receiptId });
+    assert.equal(busy.reason, "forward_in_progress");
+
+    // Default lease: 10s timeout + 1ms backoff + 5s slack
+    const later = new Date(Date.now() + 16000);
+    const taken = await retryForward(withTarget(), store, { receiptId: receipt.receiptId, now: later });
+    assert.equal(taken.forwardOutcome, "delivered");
+  });
+});
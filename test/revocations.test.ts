@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import {
+  RevocationFeedPoller,
+  buildRevocationFeed,
+  createRevocationChecker,
+  revokeReceipts,
+} from "../src/revocations.js";
+import { MemoryRecordStore } from "../src/stores.js";
+import type { Revocation, SignedRevocationFeed } from "../src/types.js";
+import { adapterConfig, mintReceipt, serveJson } from "./helpers.js";
+
+const cfg = adapterConfig();
+
+async function revoke(scope: Revocation["scope"], value: string): Promise<Revocation> {
+  const store = new MemoryRecordStore<Revocation>();
+  const out = await revokeReceipts(cfg, store, { scope, value, reason: "fraud", by: "alice" });
+  return out.revocation!;
+}
+
+describe("createRevocationChecker", () => {
+  it("revokes by receiptId, and scope-wide only receipts issued before the revocation", async () => {
+    const { receipt } = mintReceipt(cfg.receiptPrivateKeyPem!);
+    const byId = await revoke("receiptId", receipt.receiptId);
+    assert.equal(createRevocationChecker([byId])(receipt).revoked, true);
+
+    const byActor = await revoke("actorId", receipt.actorId);
+    assert.equal(createRevocationChecker([byActor])(receipt).revoked, true);
+
+    const later = { ...receipt, issuedAt: new Date(Date.now() + 60000).toISOString() };
+    assert.equal(createRevocationChecker([byActor])(later).revoked, false);
+  });
+});
+
+describe("RevocationFeedPoller", () => {
+  let feed: SignedRevocationFeed | null = null;
+  let server: Awaited<ReturnType<typeof serveJson>>;
+
+  before(async () => {
+    server = await serveJson((req) =>
+      req.headers.authorization === "Bearer feed-token" ? { body: feed } : { status: 401, body: { reason: "unauthorized" } }
+    );
+  });
+  after(() => server.close());
+
+  const poller = (maxStalenessMs = 60000) =>
+    new RevocationFeedPoller({
+      url: server.url,
+      receiptPublicKeyPem: cfg.receiptPublicKeyPem,
+      maxStalenessMs,
+      headers: { authorization: "Bearer feed-token" },
+    });
+
+  it("serves only what matching needs", async () => {
+    feed = await buildRevocationFeed(cfg, [await revoke("actorId", "actor-1")]);
+    assert.deepEqual(Object.keys(feed.feed.revocations[0]).sort(), ["expiresAt", "id", "revokedAt", "scope", "value"]);
+  });
+
+  it("fails closed until a feed loads, then rejects revoked receipts", async () => {
+    const { receipt } = mintReceipt(cfg.receiptPrivateKeyPem!);
+    const p = poller();
+    assert.equal(p.check(receipt).reason, "revocation_feed_unavailable");
+
+    feed = await buildRevocationFeed(cfg, [await revoke("receiptId", receipt.receiptId)]);
+    assert.equal(await p.refresh(), true);
+    assert.equal(p.check(receipt).reason, "receipt_revoked");
+    assert.equal(p.check(mintReceipt(cfg.receiptPrivateKeyPem!).receipt).revoked, false);
+  });
+
+  it("rejects a replayed or older feed, keeping newer revocations", async () => {
+    const { receipt } = mintReceipt(cfg.receiptPrivateKeyPem!);
+    const p = poller();
+
+    const old = await buildRevocationFeed(cfg, [], new Date(Date.now() - 1000));
+    feed = await buildRevocationFeed(cfg, [await revoke("receiptId", receipt.receiptId)]);
+    assert.equal(await p.refresh(), true);
+
+    assert.equal(await p.refresh(), false);
+    assert.equal(p.lastError, "revocation_feed_not_newer");
+
+    feed = old;
+    assert.equal(await p.refresh(), false);
+    assert.equal(p.lastError, "revocation_feed_not_newer");
+    assert.equal(p.check(receipt).reason, "receipt_revoked");
+  });
+
+  it("measures staleness from the feed's issuedAt, so replays cannot keep it fresh", async () => {
+    const { receipt } = mintReceipt(cfg.receiptPrivateKeyPem!);
+    const p = poller(1500);
+
+    feed = await buildRevocationFeed(cfg, [], new Date(Date.now() - 500));
+    assert.equal(await p.refresh(), true);
+    assert.equal(p.check(receipt).revoked, false);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    await p.refresh();
+    assert.equal(p.check(receipt).reason, "revocation_feed_stale");
+  });
+
+  it("rejects a feed that is already stale on first load", async () => {
+    const p = poller(1500);
+    feed = await buildRevocationFeed(cfg, [], new Date(Date.now() - 3000));
+
+    assert.equal(await p.refresh(), false);
+    assert.equal(p.lastError, "revocation_feed_stale");
+    assert.equal(p.check(mintReceipt(cfg.receiptPrivateKeyPem!).receipt).reason, "revocation_feed_unavailable");
+  });
+
+  it("fails closed without the feed token", async () => {
+    const p = new RevocationFeedPoller({ url: server.url, receiptPublicKeyPem: cfg.receiptPublicKeyPem });
+    assert.equal(await p.refresh(), false);
+    assert.equal(p.lastError, "revocation_feed_http_401");
+  });
+});
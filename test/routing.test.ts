@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { ConfigError } from "../src/errors.js";
+import { forwardToExecutor, resolveForwardRoute } from "../src/forwarding.js";
+import { gateAndForward } from "../src/gate.js";
+import { acceptance, adapterConfig, envConfig, execute, intent, keyPair, mintReceipt, serveJson } from "./helpers.js";
+
+const targets = (payments: Record<string, unknown>) =>
+  envConfig({ SOLACE_ADAPTER_TARGETS_JSON: JSON.stringify({ payments }) });
+
+describe("per-operation routing", () => {
+  let executor: Awaited<ReturnType<typeof serveJson>>;
+  let seen: { method: string; url: string; headers: Record<string, unknown> }[] = [];
+
+  before(async () => {
+    executor = await serveJson((req) => {
+      seen.push({ method: req.method, url: req.url, headers: req.headers });
+      return { body: { ok: true } };
+    });
+  });
+  after(() => executor.close());
+
+  it("denies undeclared operations before Core is called", async () => {
+    let coreCalls = 0;
+    const core = await serveJson(() => {
+      coreCalls++;
+      return { status: 500, body: {} };
+    });
+    try {
+      const cfg = adapterConfig({
+        core: { coreBaseUrl: core.url, timeoutMs: 2000, publicKeys: { "core-1": keyPair().publicKeyPem } },
+        targets: { payments: { service: "payments", url: executor.url, operations: { charge: {} } } },
+      });
+      const out = await gateAndForward(cfg, { intent, execute, acceptance: acceptance() });
+      assert.deepEqual([out.decision, out.reason, coreCalls], ["DENY", "unknown_operation", 0]);
+    } finally {
+      await core.close();
+    }
+  });
+
+  it("treats the array form as an allowlist on the service url", () => {
+    const { payments } = targets({ url: "https://executor.test/payments", operations: ["refund", "charge"] }).targets;
+    assert.deepEqual(payments.operations, { refund: {}, charge: {} });
+    assert.deepEqual(resolveForwardRoute(payments, "charge"), {
+      url: "https://executor.test/payments",
+      method: "POST",
+      headers: {},
+    });
+    assert.equal(resolveForwardRoute(payments, "void"), null);
+    // Undeclared even when inherited from Object.prototype
+    assert.equal(resolveForwardRoute(payments, "toString"), null);
+  });
+
+  it("forwards with the operation's path, url, method and static headers", async () => {
+    const cfg = targets({
+      url: `${executor.url}/payments`,
+      bearerToken: "token-1",
+      operations: {
+        refund: { path: "/ops/{operation}", method: "put", headers: { "x-team": "billing" } },
+        charge: { url: `${executor.url}/charges` },
+      },
+    });
+    const { receipt } = mintReceipt(keyPair().privateKeyPem);
+
+    seen = [];
+    for (const operation of ["refund", "charge"]) {
+      await forwardToExecutor({ cfg, service: "payments", operation, envelope: { intent, execute }, receipt });
+    }
+
+    assert.deepEqual(
+      seen.map((r) => [r.method, r.url, r.headers["x-team"]]),
+      [
+        ["PUT", "/payments/ops/refund", "billing"],
+        ["POST", "/charges", undefined],
+      ]
+    );
+    assert.equal(seen[0].headers.authorization, "Bearer token-1");
+    assert.equal(seen[0].headers["idempotency-key"], receipt.receiptId);
+  });
+
+  it("rejects static headers that would override adapter-set ones, and unsupported methods", () => {
+    for (const header of ["content-type", "Authorization", "x-solace-receipt", "Idempotency-Key"]) {
+      assert.throws(
+        () => targets({ url: executor.url, operations: { refund: { headers: { [header]: "x" } } } }),
+        (e) => e instanceof ConfigError && e.message.startsWith("reserved_target_operation_header"),
+        header
+      );
+    }
+    assert.throws(
+      () => targets({ url: executor.url, operations: { refund: { method: "GET" } } }),
+      (e) => e instanceof ConfigError && e.message.startsWith("invalid_target_operation_method")
+    );
+  });
+});
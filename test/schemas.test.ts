@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { computeExecuteHash, computeIntentHash } from "../src/canonical.js";
+import { ConfigError } from "../src/errors.js";
+import { verifyExecutorRequest } from "../src/executorVerifier.js";
+import { gateAndForward } from "../src/gate.js";
+import { loadExecuteSchemasFromDir } from "../src/schemas.js";
+import type { AdapterForwardingConfig } from "../src/types.js";
+import {
+  acceptance,
+  coreDecision,
+  envConfig,
+  execute,
+  intent,
+  keyPair,
+  mintReceipt,
+  serveJson,
+  tempDir,
+} from "./helpers.js";
+
+const refundSchema = {
+  type: "object",
+  required: ["action", "amount", "currency"],
+  properties: {
+    action: { const: "payments:refund" },
+    amount: { type: "integer", minimum: 1 },
+    currency: { enum: ["USD", "EUR"] },
+  },
+};
+
+function schemasDir(files: Record<string, unknown> = { "payments.refund.json": refundSchema }): string {
+  const dir = tempDir();
+  for (const [name, schema] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), JSON.stringify(schema));
+  }
+  return dir;
+}
+
+const badRefund = { ...execute, amount: -5 };
+const charge = { action: "payments:charge", amount: 100, currency: "USD" };
+
+describe("loadExecuteSchemasFromDir", () => {
+  it("registers one action per <service>.<operation>.json file", () => {
+    const dir = schemasDir();
+    fs.writeFileSync(path.join(dir, "README.md"), "ignored");
+    assert.deepEqual(loadExecuteSchemasFromDir(dir).actions(), ["payments:refund"]);
+  });
+
+  it("fails closed on a missing dir, bad file names and bad schemas", () => {
+    const isConfigError = (reason: string) => (e: unknown) => e instanceof ConfigError && e.message.startsWith(reason);
+
+    assert.throws(
+      () => loadExecuteSchemasFromDir(path.join(tempDir(), "nope")),
+      isConfigError("missing_execute_schemas_dir")
+    );
+    assert.throws(
+      () => loadExecuteSchemasFromDir(schemasDir({ "refund.json": {} })),
+      isConfigError("invalid_execute_schema_filename")
+    );
+    assert.throws(
+      () => loadExecuteSchemasFromDir(schemasDir({ "payments.refund.json": { type: "nope" } })),
+      isConfigError("invalid_execute_schema")
+    );
+  });
+});
+
+describe("execute schemas at the gate", () => {
+  const coreKey = keyPair();
+  let core: Awaited<ReturnType<typeof serveJson>>;
+  let executor: Awaited<ReturnType<typeof serveJson>>;
+  let coreCalls = 0;
+
+  before(async () => {
+    core = await serveJson((req) => {
+      coreCalls++;
+      const env = JSON.parse(req.body);
+      return {
+        body: coreDecision(coreKey.privateKeyPem, {
+          executeHash: computeExecuteHash(env.execute),
+          intentHash: computeIntentHash(env.intent),
+        }),
+      };
+    });
+    executor = await serveJson(() => ({ body: { ok: true } }));
+  });
+  after(async () => {
+    await core.close();
+    await executor.close();
+  });
+
+  function gate(env: Record<string, string>, e: typeof charge) {
+    const targets = JSON.stringify({ payments: { url: executor.url } });
+    const loaded = envConfig({ SOLACE_ADAPTER_TARGETS_JSON: targets, ...env });
+    const cfg: AdapterForwardingConfig = {
+      ...loaded,
+      core: { coreBaseUrl: core.url, timeoutMs: 2000, publicKeys: { "core-1": coreKey.publicKeyPem } },
+    };
+    coreCalls = 0;
+    return gateAndForward(cfg, { intent, execute: e, acceptance: acceptance({ executeHash: computeExecuteHash(e) }) });
+  }
+
+  it("forwards a valid payload and denies an invalid one before Core", async () => {
+    const env = { SOLACE_ADAPTER_EXECUTE_SCHEMAS_DIR: schemasDir() };
+    assert.equal((await gate(env, execute)).decision, "PERMIT");
+
+    const out = await gate(env, badRefund);
+    assert.deepEqual([out.decision, out.reason, coreCalls], ["DENY", "execute_schema_invalid", 0]);
+    assert.deepEqual(out.validationErrors?.map((v) => [v.path, v.keyword]), [["/amount", "minimum"]]);
+  });
+
+  it("lets actions without a schema through unless schemas are required", async () => {
+    const dir = schemasDir();
+    const optional = await gate({ SOLACE_ADAPTER_EXECUTE_SCHEMAS_DIR: dir }, charge);
+    assert.deepEqual([optional.decision, coreCalls], ["PERMIT", 1]);
+
+    const required = await gate(
+      { SOLACE_ADAPTER_EXECUTE_SCHEMAS_DIR: dir, SOLACE_ADAPTER_REQUIRE_EXECUTE_SCHEMAS: "true" },
+      charge
+    );
+    assert.deepEqual([required.decision, required.reason, coreCalls], ["DENY", "execute_schema_missing", 0]);
+  });
+
+  it("refuses to start requiring schemas without a schemas dir", () => {
+    assert.throws(
+      () => envConfig({ SOLACE_ADAPTER_REQUIRE_EXECUTE_SCHEMAS: "true" }),
+      (e) => e instanceof ConfigError && e.message.startsWith("missing_env_SOLACE_ADAPTER_EXECUTE_SCHEMAS_DIR")
+    );
+  });
+});
+
+describe("execute schemas at the executor", () => {
+  const adapter = keyPair();
+  const executeSchemas = loadExecuteSchemasFromDir(schemasDir());
+
+  const verify = (e: Record<string, unknown>) =>
+    verifyExecutorRequest({
+      receiptHeader: mintReceipt(adapter.privateKeyPem, { execute: e }).header,
+      receiptPublicKeyPem: adapter.publicKeyPem,
+      expectedService: "payments",
+      executeSchemas,
+      execute: e,
+      intent,
+    });
+
+  it("validates the execute payload against the same registry", () => {
+    assert.equal(verify(execute).ok, true);
+
+    const bad = verify(badRefund);
+    assert.equal(bad.reason, "execute_schema_invalid");
+    assert.deepEqual(bad.validationErrors?.map((v) => v.path), ["/amount"]);
+
+    assert.equal(verify(charge).reason, "execute_schema_missing");
+  });
+});
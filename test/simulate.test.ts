@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { after, before, describe, it } from "node:test";
+import { computeExecuteHash, computeIntentHash } from "../src/canonical.js";
+import { MemoryDecisionLog } from "../src/decisionLog.js";
+import { verifyExecutorRequest } from "../src/executorVerifier.js";
+import { gateAndForward } from "../src/gate.js";
+import { receiptSigningMaterial, verifyReceipt } from "../src/receipt.js";
+import { MemoryRecordStore } from "../src/stores.js";
+import type { AdapterForwardingConfig, DeadLetterEntry, ForwardRecord, Receipt, ReceiptRecord } from "../src/types.js";
+import { acceptance, adapterConfig, coreDecision, execute, intent, keyPair, serveJson } from "./helpers.js";
+
+describe("dry run (/v1/gate/simulate)", () => {
+  const coreKey = keyPair();
+  let core: Awaited<ReturnType<typeof serveJson>>;
+  let executor: Awaited<ReturnType<typeof serveJson>>;
+  let cfg: AdapterForwardingConfig;
+  let forwarded = 0;
+
+  before(async () => {
+    core = await serveJson(() => ({
+      body: coreDecision(coreKey.privateKeyPem, {
+        executeHash: computeExecuteHash(execute),
+        intentHash: computeIntentHash(intent),
+      }),
+    }));
+    executor = await serveJson(() => {
+      forwarded++;
+      return { body: { ok: true } };
+    });
+    cfg = adapterConfig({
+      core: { coreBaseUrl: core.url, timeoutMs: 2000, publicKeys: { "core-1": coreKey.publicKeyPem } },
+      targets: { payments: { service: "payments", url: executor.url } },
+    });
+  });
+  after(async () => {
+    await core.close();
+    await executor.close();
+  });
+
+  async function simulate() {
+    const stores = {
+      forwards: new MemoryRecordStore<ForwardRecord>(),
+      deadLetters: new MemoryRecordStore<DeadLetterEntry>(),
+      receipts: new MemoryRecordStore<ReceiptRecord>(),
+      decisionLog: new MemoryDecisionLog(),
+    };
+    const out = await gateAndForward(cfg, { intent, execute, acceptance: acceptance() }, { dryRun: true, ...stores });
+    return { out, stores };
+  }
+
+  it("returns the receipt that would be minted without forwarding or recording it", async () => {
+    forwarded = 0;
+    const { out, stores } = await simulate();
+
+    assert.deepEqual([out.decision, out.reason, out.simulated], ["PERMIT", "simulated_core_permit", true]);
+    assert.equal(out.receipt, undefined);
+    assert.equal(out.simulatedReceipt?.signature, null);
+    assert.equal(out.simulatedReceipt?.executeHash, computeExecuteHash(execute));
+
+    assert.equal(forwarded, 0);
+    assert.deepEqual(await stores.forwards.list(), []);
+    assert.deepEqual(await stores.receipts.list(), []);
+    assert.deepEqual(await stores.deadLetters.list(), []);
+    assert.deepEqual((await stores.decisionLog.readAll()).map((e) => e.decision), ["PERMIT"]);
+  });
+
+  it("produces receipts that verifyReceipt and executors reject, even if signed", async () => {
+    const { out } = await simulate();
+    const simulated = out.simulatedReceipt as unknown as Receipt;
+    const verify = (receipt: Receipt) => verifyReceipt({ receipt, receiptPublicKeyPem: cfg.receiptPublicKeyPem });
+
+    assert.equal(verify(simulated).reason, "receipt_simulated");
+
+    // Signing the simulated fields with the real key does not make it a receipt
+    const { signature: _, ...unsigned } = simulated;
+    const material = Buffer.from(receiptSigningMaterial(unsigned), "utf8");
+    const signed = { ...simulated, signature: crypto.sign(null, material, cfg.receiptPrivateKeyPem!).toString("base64") };
+    assert.equal(verify(signed).reason, "receipt_simulated");
+
+    const v = verifyExecutorRequest({
+      receiptHeader: Buffer.from(JSON.stringify(signed), "utf8").toString("base64"),
+      receiptPublicKeyPem: cfg.receiptPublicKeyPem!,
+      expectedService: "payments",
+      execute,
+      intent,
+    });
+    assert.deepEqual([v.ok, v.reason], [false, "receipt_simulated"]);
+  });
+});
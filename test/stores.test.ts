@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import path from "path";
+import { describe, it } from "node:test";
+import { FileRecordStore, MemoryRecordStore } from "../src/stores.js";
+import { tempDir } from "./helpers.js";
+
+type Row = { status: string; n: number };
+
+const claim = (current: Row | null) => (current?.status === "open" ? { ...current, status: "taken" } : null);
+
+describe("MemoryRecordStore.update", () => {
+  it("applies fn to the current value, or leaves it when fn returns null", async () => {
+    const store = new MemoryRecordStore<Row>();
+    await store.put("a", { status: "open", n: 1 });
+
+    assert.deepEqual(await store.update("a", claim), { status: "taken", n: 1 });
+    assert.equal(await store.update("a", claim), null);
+    assert.equal(await store.update("missing", claim), null);
+    assert.deepEqual(await store.get("a"), { status: "taken", n: 1 });
+  });
+});
+
+describe("FileRecordStore.update", () => {
+  it("lets exactly one of two instances sharing a file claim a record", async () => {
+    const file = path.join(tempDir(), "rows.jsonl");
+    const a = new FileRecordStore<Row>(file);
+    const b = new FileRecordStore<Row>(file);
+    await a.put("r", { status: "open", n: 1 });
+
+    const results = await Promise.all([a.update("r", claim), b.update("r", claim)]);
+    assert.equal(results.filter(Boolean).length, 1);
+
+    // Both instances (and a fresh reader) see the claim
+    for (const s of [a, b, new FileRecordStore<Row>(file)]) {
+      assert.equal((await s.get("r"))?.status, "taken");
+    }
+  });
+
+  it("sees its own queued puts before deciding", async () => {
+    const store = new FileRecordStore<Row>(path.join(tempDir(), "rows.jsonl"));
+    void store.put("r", { status: "open", n: 2 });
+    assert.deepEqual(await store.update("r", claim), { status: "taken", n: 2 });
+  });
+});
@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { verifyExecutorRequest } from "../src/executorVerifier.js";
+import {
+  TrustRegistryLoader,
+  createTrustRegistry,
+  parseTrustBundle,
+  signTrustBundle,
+  verifyTrustBundle,
+} from "../src/trustRegistry.js";
+import type { SignedTrustBundle, TrustBundle } from "../src/types.js";
+import { execute, intent, keyPair, mintReceipt, serveJson, tempDir } from "./helpers.js";
+
+const adapterA = keyPair();
+const adapterB = keyPair();
+const registryKey = keyPair();
+
+const registry = {
+  adapters: [
+    { adapterId: "adapter-a", services: ["payments"], keys: [{ publicKeyPem: adapterA.publicKeyPem }] },
+    {
+      adapterId: "adapter-b",
+      services: ["*"],
+      keys: [{ kid: "b1", publicKeyPem: adapterB.publicKeyPem }],
+      notAfter: "2020-01-01T00:00:00Z",
+    },
+  ],
+};
+
+function bundleAt(ms: number, doc: object = registry): SignedTrustBundle {
+  const bundle: TrustBundle = { ...parseTrustBundle(doc), issuedAt: new Date(ms).toISOString() };
+  return signTrustBundle(bundle, { privateKeyPem: registryKey.privateKeyPem });
+}
+
+function verifyWith(trustRegistry: Parameters<typeof verifyExecutorRequest>[0]["trustRegistry"], header: string) {
+  return verifyExecutorRequest({ receiptHeader: header, trustRegistry, expectedService: "payments", execute, intent });
+}
+
+describe("createTrustRegistry", () => {
+  const trust = createTrustRegistry(parseTrustBundle(registry).adapters);
+
+  it("verifies with the adapter's own keys", () => {
+    assert.equal(verifyWith(trust, mintReceipt(adapterA.privateKeyPem, { adapterId: "adapter-a" }).header).ok, true);
+    assert.equal(
+      verifyWith(trust, mintReceipt(adapterB.privateKeyPem, { adapterId: "adapter-a" }).header).reason,
+      "invalid_receipt_signature"
+    );
+  });
+
+  it("rejects unknown adapters, disallowed services and receipts outside the window", () => {
+    assert.equal(verifyWith(trust, mintReceipt(adapterA.privateKeyPem, { adapterId: "other" }).header).reason, "unknown_adapter");
+    assert.equal(
+      trust.resolve({ adapterId: "adapter-a", service: "email", issuedAt: new Date().toISOString() }).reason,
+      "adapter_service_not_allowed"
+    );
+    assert.equal(
+      verifyWith(trust, mintReceipt(adapterB.privateKeyPem, { adapterId: "adapter-b" }).header).reason,
+      "adapter_not_valid_at_issue"
+    );
+  });
+
+  it("rejects unparseable window dates, and treats any that get through as outside the window", () => {
+    const a = registry.adapters[0];
+    assert.throws(() => parseTrustBundle({ adapters: [{ ...a, notAfter: "2099-13-45" }] }), /invalid_trusted_adapter_window/);
+    assert.throws(
+      () => parseTrustBundle({ adapters: [{ ...a, keys: [{ ...a.keys[0], notBefore: "soon" }] }] }),
+      /invalid_trusted_adapter_window/
+    );
+
+    const [parsed] = parseTrustBundle({ adapters: [a] }).adapters;
+    const badAdapter = createTrustRegistry([{ ...parsed, notAfter: "2099-13-45" }]);
+    const badKey = createTrustRegistry([{ ...parsed, keys: [{ ...parsed.keys[0], notAfter: "never" }] }]);
+    const header = mintReceipt(adapterA.privateKeyPem, { adapterId: "adapter-a" }).header;
+
+    assert.equal(verifyWith(badAdapter, header).reason, "adapter_not_valid_at_issue");
+    assert.equal(verifyWith(badKey, header).reason, "receipt_key_not_valid_at_issue");
+  });
+
+  it("rejects malformed registries", () => {
+    assert.throws(() => parseTrustBundle({}), /invalid_trust_registry/);
+    assert.throws(() => parseTrustBundle({ adapters: [registry.adapters[0], registry.adapters[0]] }), /duplicate_trusted_adapter/);
+    assert.throws(
+      () => parseTrustBundle({ adapters: [{ adapterId: "x", services: ["s"], keys: [{ publicKeyPem: "nope" }] }] }),
+      /invalid_trusted_adapter_keys/
+    );
+  });
+});
+
+describe("verifyTrustBundle", () => {
+  it("requires a valid signature and issuedAt", () => {
+    const signed = bundleAt(Date.now());
+    assert.equal(verifyTrustBundle({ signed, bundlePublicKeyPem: registryKey.publicKeyPem }).ok, true);
+    assert.equal(
+      verifyTrustBundle({ signed, bundlePublicKeyPem: keyPair().publicKeyPem }).reason,
+      "invalid_trust_bundle_signature"
+    );
+
+    const tampered = structuredClone(signed);
+    tampered.bundle.adapters[0].services.push("email");
+    assert.equal(
+      verifyTrustBundle({ signed: tampered, bundlePublicKeyPem: registryKey.publicKeyPem }).reason,
+      "invalid_trust_bundle_signature"
+    );
+
+    const undated = signTrustBundle(parseTrustBundle(registry), { privateKeyPem: registryKey.privateKeyPem });
+    assert.equal(
+      verifyTrustBundle({ signed: undated, bundlePublicKeyPem: registryKey.publicKeyPem }).reason,
+      "invalid_trust_bundle_issued_at"
+    );
+  });
+});
+
+describe("TrustRegistryLoader", () => {
+  let served: SignedTrustBundle | null = null;
+  let server: Awaited<ReturnType<typeof serveJson>>;
+  let dir: string;
+
+  before(async () => {
+    server = await serveJson(() => ({ body: served }));
+    dir = tempDir();
+  });
+  after(async () => {
+    await server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const resolveA = (loader: TrustRegistryLoader) =>
+    loader.resolve({ adapterId: "adapter-a", service: "payments", issuedAt: new Date().toISOString() });
+
+  it("loads a plain registry file and fails closed before that", async () => {
+    const file = path.join(dir, "registry.json");
+    fs.writeFileSync(file, JSON.stringify(registry));
+    const loader = new TrustRegistryLoader({ file });
+
+    assert.equal(resolveA(loader).reason, "trust_registry_unavailable");
+    assert.equal(await loader.refresh(), true);
+    assert.equal(await loader.refresh(), true);
+    assert.equal(resolveA(loader).ok, true);
+  });
+
+  it("requires signed bundles from URLs", () => {
+    assert.throws(() => new TrustRegistryLoader({ url: server.url }), /missing_trust_bundle_public_key/);
+  });
+
+  it("does not let a replayed older bundle re-trust a removed adapter", async () => {
+    const loader = new TrustRegistryLoader({ url: server.url, bundlePublicKeyPem: registryKey.publicKeyPem });
+    const withA = bundleAt(Date.now() - 1000);
+
+    served = withA;
+    assert.equal(await loader.refresh(), true);
+    assert.equal(resolveA(loader).ok, true);
+
+    // Same bundle again: no-op
+    assert.equal(await loader.refresh(), true);
+
+    served = bundleAt(Date.now(), { adapters: [registry.adapters[1]] });
+    assert.equal(await loader.refresh(), true);
+    assert.equal(resolveA(loader).reason, "unknown_adapter");
+
+    served = withA;
+    assert.equal(await loader.refresh(), false);
+    assert.equal(loader.lastError, "trust_bundle_not_newer");
+    assert.equal(resolveA(loader).reason, "unknown_adapter");
+  });
+
+  it("rejects a different bundle with the same issuedAt", async () => {
+    const loader = new TrustRegistryLoader({ url: server.url, bundlePublicKeyPem: registryKey.publicKeyPem });
+    const at = Date.now();
+
+    served = bundleAt(at, { adapters: [registry.adapters[1]] });
+    assert.equal(await loader.refresh(), true);
+    served = bundleAt(at);
+    assert.equal(await loader.refresh(), false);
+    assert.equal(loader.lastError, "trust_bundle_not_newer");
+  });
+
+  it("measures staleness from the bundle's issuedAt", async () => {
+    const loader = new TrustRegistryLoader({
+      url: server.url,
+      bundlePublicKeyPem: registryKey.publicKeyPem,
+      maxStalenessMs: 1500,
+    });
+
+    served = bundleAt(Date.now() - 3000);
+    assert.equal(await loader.refresh(), false);
+    assert.equal(loader.lastError, "trust_bundle_stale");
+
+    served = bundleAt(Date.now() - 500);
+    assert.equal(await loader.refresh(), true);
+    assert.equal(resolveA(loader).ok, true);
+
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    assert.equal(await loader.refresh(), true);
+    assert.equal(resolveA(loader).reason, "trust_registry_stale");
+  });
+});